@@ -0,0 +1,79 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { Config } from './Config';
+import { DecisionLog } from './DecisionLog';
+import { GameSessions } from './GameSession';
+import { LatencyStats } from './LatencyStats';
+import { PlayerTracker } from './PlayerTracker';
+import { PokerBot } from './PokerBot';
+import { ResultsLedger } from './ResultsLedger';
+import { StrategyRegistry } from './StrategyRegistry';
+import { TournamentDataService } from './TournamentDataService';
+
+const DEFAULT_DECISION_LIMIT = 50;
+
+/**
+ * Read-only JSON views of the bot's state, mounted under /admin. When `admin_token` is configured,
+ * requests must carry it as a bearer token or a `token` query parameter.
+ */
+export function createAdminRouter(): Router {
+  const router = Router();
+
+  router.use(requireToken);
+
+  router.get('/profiles', ({}, res) => {
+    res.json(PlayerTracker.getInstance().getOpponentSummaries());
+  });
+
+  router.get('/decisions', (req, res) => {
+    const limit = parseInt(String(req.query['limit'] ?? DEFAULT_DECISION_LIMIT));
+    res.json(DecisionLog.getInstance().recent(Number.isFinite(limit) ? limit : DEFAULT_DECISION_LIMIT));
+  });
+
+  router.get('/sessions', ({}, res) => {
+    res.json(GameSessions.getInstance().all().map(session => session.summary()));
+  });
+
+  router.get('/standings', ({}, res) => {
+    res.json(TournamentDataService.getInstance().getStandings());
+  });
+
+  router.get('/results', (req, res) => {
+    const ledger = ResultsLedger.getInstance();
+    if (req.query['format'] === 'csv') {
+      res.type('text/csv').send(ledger.toCsv());
+    } else {
+      res.type('application/json').send(ledger.toJson());
+    }
+  });
+
+  router.get('/strategy', ({}, res) => {
+    const registry = StrategyRegistry.getInstance();
+    res.json({
+      version: PokerBot.VERSION,
+      strategy: registry.describe(),
+      available: registry.names()
+    });
+  });
+
+  router.get('/latency', ({}, res) => {
+    res.json(LatencyStats.getInstance().summary());
+  });
+
+  return router;
+}
+
+function requireToken(req: Request, res: Response, next: NextFunction): void {
+  const token = Config.get('admin_token');
+  if (!token) {
+    next();
+    return;
+  }
+
+  const header = req.headers.authorization;
+  const given = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : req.query['token'];
+  if (given !== token) {
+    res.status(401).json({ error: 'Missing or invalid admin token' });
+    return;
+  }
+  next();
+}
@@ -0,0 +1,122 @@
+import { GameState } from './GameState';
+import { Logger } from './Logger';
+
+const logger = new Logger('BetLegalizer');
+
+export type BetAction =
+  | { type: 'fold' }
+  | { type: 'check' }
+  | { type: 'call' }
+  | { type: 'raise', to: number } // `to` is our total bet for the street after raising
+  | { type: 'all-in' };
+
+export interface LegalBet {
+  amount: number; // Chips to add, as sent back to Lean Poker
+  action: BetAction; // What the amount actually does at the table
+  corrections: string[];
+}
+
+/**
+ * Turns the action a strategy asked for into a bet the engine will accept as that action.
+ *
+ * Lean Poker reads any amount below the call as a fold and anything between the call and a full
+ * raise as a call, so unless we fix up bad amounts ourselves the engine silently does it for us.
+ */
+export class BetLegalizer {
+  public static legalize(action: BetAction, gameState: GameState): LegalBet {
+    const result = this.preview(action, gameState);
+
+    if (result.corrections.length > 0) {
+      const fields = {
+        requested: this.describe(action),
+        played: this.describe(result.action),
+        amount: result.amount,
+        corrections: result.corrections
+      };
+      // A raise that isn't a number, or a check that turns into a fold, means the strategy asked for
+      // something it could never play; the rest are sizes brought into range
+      const illegal = (action.type === 'raise' && !Number.isFinite(action.to)) ||
+                      (action.type !== 'fold' && result.action.type === 'fold');
+      if (illegal) logger.warn('Illegal bet corrected', fields);
+      else logger.info('Bet correction', fields);
+    }
+    return result;
+  }
+
+  /**
+   * The legal bet for an action without logging anything, for weighing up candidate actions.
+   */
+  public static preview(action: BetAction, gameState: GameState): LegalBet {
+    const corrections: string[] = [];
+    const result = this.resolve(action, gameState, corrections);
+    return { ...result, corrections };
+  }
+
+  public static describe(action: BetAction): string {
+    return action.type === 'raise' ? `raise to ${action.to}` : action.type;
+  }
+
+  private static resolve(action: BetAction, gameState: GameState, corrections: string[]): Omit<LegalBet, 'corrections'> {
+    const player = gameState.ourPlayer();
+    const stack = Math.max(0, player.stack);
+    const toCall = Math.max(0, gameState.toCall());
+
+    switch (action.type) {
+      case 'fold':
+        return { amount: 0, action };
+
+      case 'check':
+        if (toCall > 0) {
+          corrections.push(`cannot check facing ${toCall} to call`);
+          return { amount: 0, action: { type: 'fold' } };
+        }
+        return { amount: 0, action };
+
+      case 'call':
+        if (toCall >= stack && stack > 0) {
+          if (toCall > stack) corrections.push(`call of ${toCall} is more than our stack of ${stack}`);
+          return { amount: stack, action: { type: 'all-in' } };
+        }
+        return { amount: toCall, action: toCall === 0 ? { type: 'check' } : action };
+
+      case 'all-in':
+        return { amount: stack, action };
+
+      case 'raise':
+        return this.resolveRaise(action.to, gameState, corrections);
+    }
+  }
+
+  private static resolveRaise(requestedTo: number, gameState: GameState, corrections: string[]): Omit<LegalBet, 'corrections'> {
+    const player = gameState.ourPlayer();
+    const stack = Math.max(0, player.stack);
+    const maximumTo = player.bet + stack;
+    const minimumTo = gameState.currentBuyIn + gameState.minimumRaise;
+    let to = requestedTo;
+
+    if (!Number.isFinite(to)) {
+      corrections.push(`raise amount ${to} is not a number`);
+      to = minimumTo;
+    } else if (!Number.isInteger(to)) {
+      corrections.push(`rounded fractional raise of ${to}`);
+      to = Math.floor(to);
+    }
+
+    if (to <= gameState.currentBuyIn) {
+      corrections.push(`raise to ${to} does not exceed the current bet of ${gameState.currentBuyIn}`);
+      return this.resolve({ type: 'call' }, gameState, corrections);
+    }
+
+    if (to < minimumTo) {
+      corrections.push(`raise to ${to} is below the minimum raise to ${minimumTo}`);
+      to = minimumTo;
+    }
+
+    if (to >= maximumTo) {
+      if (to > maximumTo) corrections.push(`raise to ${to} is more than our stack allows (${maximumTo})`);
+      return { amount: stack, action: { type: 'all-in' } };
+    }
+
+    return { amount: to - player.bet, action: { type: 'raise', to } };
+  }
+}
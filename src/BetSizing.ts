@@ -0,0 +1,101 @@
+import { BetAction } from './BetLegalizer';
+import { GameState } from './GameState';
+import { TournamentStage } from './TournamentStage';
+
+export type PotFraction = 'third' | 'half' | 'threeQuarters' | 'pot' | 'overbet';
+
+// Pre-flop raise-to sizes, in big blinds
+export type PreflopSize = 2 | 2.5 | 3 | 4;
+
+export interface SizingMenu {
+  effectiveStack: number; // Chips that can still be won or lost once we have called, see TournamentStage.effectiveStack
+  spr: number; // Stack-to-pot ratio: effectiveStack / the pot after our call
+  potFractions: { [fraction in PotFraction]: BetAction }; // Raise by that share of the pot after calling
+  preflop: { [bigBlinds in PreflopSize]: BetAction } | null; // Only before the flop
+  geometric: BetAction | null; // Same share of the pot on every street left gets the stacks in by the river
+  geometricFraction: number | null;
+  allIn: BetAction;
+}
+
+/**
+ * Bet sizes worked out from the stack-to-pot ratio. Every size is checked for commitment: a bet that
+ * would leave less than half the resulting pot behind is turned into an all-in, since we could not
+ * fold to a shove afterwards anyway.
+ */
+export class BetSizing {
+  private static readonly FRACTIONS: { [fraction in PotFraction]: number } = {
+    third: 0.33, half: 0.5, threeQuarters: 0.75, pot: 1, overbet: 1.5
+  };
+  private static readonly PREFLOP_SIZES: PreflopSize[] = [2, 2.5, 3, 4];
+  private static readonly COMMITMENT_RATIO = 0.5; // Chips behind relative to the pot after our bet
+  private static readonly STREETS_LEFT: { [street: string]: number } = { flop: 3, turn: 2, river: 1 };
+
+  public static menu(gameState: GameState): SizingMenu {
+    const effectiveStack = this.effectiveStackAfterCall(gameState);
+    const potAfterCall = gameState.pot + gameState.toCall();
+    const spr = potAfterCall > 0 ? effectiveStack / potAfterCall : Infinity;
+    const byFraction = (fraction: number) => this.potRaise(gameState, fraction);
+
+    const potFractions = Object.fromEntries(
+      (Object.keys(this.FRACTIONS) as PotFraction[]).map(name => [name, byFraction(this.FRACTIONS[name])])
+    ) as { [fraction in PotFraction]: BetAction };
+
+    const preflop = gameState.pokerRound() === 'pre-flop'
+      ? Object.fromEntries(this.PREFLOP_SIZES.map(size => [size, this.raiseToBigBlinds(gameState, size)])) as { [bigBlinds in PreflopSize]: BetAction }
+      : null;
+
+    const streets = this.STREETS_LEFT[gameState.pokerRound()];
+    const geometricFraction = streets ? this.geometricFraction(potAfterCall, effectiveStack, streets) : null;
+
+    return {
+      effectiveStack,
+      spr,
+      potFractions,
+      preflop,
+      geometric: geometricFraction !== null ? byFraction(geometricFraction) : null,
+      geometricFraction,
+      allIn: { type: 'all-in' }
+    };
+  }
+
+  /**
+   * Raise by `fraction` of the pot as it would be after we call, e.g. a pot-sized raise with 1.
+   */
+  public static potRaise(gameState: GameState, fraction: number): BetAction {
+    const size = Math.round((gameState.pot + gameState.toCall()) * fraction);
+    return this.commit({ type: 'raise', to: gameState.currentBuyIn + Math.max(gameState.minimumRaise, size) }, gameState);
+  }
+
+  public static raiseToBigBlinds(gameState: GameState, bigBlinds: number): BetAction {
+    const to = Math.round(TournamentStage.bigBlind(gameState) * bigBlinds);
+    return this.commit({ type: 'raise', to: Math.max(to, gameState.currentBuyIn + gameState.minimumRaise) }, gameState);
+  }
+
+  /**
+   * Turns a raise into an all-in when it would leave too little behind to fold later, or would put
+   * in more than the effective stack anyway.
+   */
+  public static commit(action: BetAction, gameState: GameState): BetAction {
+    if (action.type !== 'raise') return action;
+
+    const ours = gameState.ourPlayer();
+    const added = action.to - ours.bet;
+    const behind = ours.stack - added;
+    const covered = action.to - gameState.currentBuyIn >= this.effectiveStackAfterCall(gameState);
+    return behind <= this.COMMITMENT_RATIO * (gameState.pot + added) || covered ? { type: 'all-in' } : action;
+  }
+
+  /**
+   * The share of the pot to bet on each of `streets` streets so that the last bet is all-in, when
+   * every bet is called: pot * (1 + 2f)^streets = pot + 2 * stack.
+   */
+  public static geometricFraction(pot: number, stack: number, streets: number): number {
+    if (pot <= 0 || stack <= 0) return 0;
+    return (Math.pow(1 + 2 * stack / pot, 1 / streets) - 1) / 2;
+  }
+
+  // The effective stack less the current bet, which everyone still in has to match before raising
+  private static effectiveStackAfterCall(gameState: GameState): number {
+    return Math.max(0, TournamentStage.effectiveStack(gameState) - gameState.currentBuyIn);
+  }
+}
@@ -0,0 +1,113 @@
+import { CardProps } from './Card';
+import { HandEvaluator } from './HandEvaluator';
+
+export type Suitedness = 'monotone' | 'two-tone' | 'rainbow';
+export type Connectedness = 'disconnected' | 'semi-connected' | 'connected';
+export type Wetness = 'dry' | 'semi-wet' | 'wet';
+// Whose pre-flop range connects better with the board: the raiser holds more big cards and pairs,
+// callers hold more suited connectors and small pairs
+export type RangeAdvantage = 'raiser' | 'caller' | 'neutral';
+
+export interface BoardTextureInfo {
+  paired: boolean; // At least two board cards share a rank
+  suitedness: Suitedness; // Monotone when every card shares a suit, two-tone when some do
+  flushPossible: boolean; // Three or more cards of one suit
+  connectedness: Connectedness;
+  straightPossible: boolean; // Three ranks fit within one straight
+  highCard: number; // Rank value (2-14) of the highest board card
+  wetness: Wetness;
+  wetScore: number; // 0 (bone dry) to 1 (every draw possible)
+  favours: RangeAdvantage;
+}
+
+/**
+ * Describes the community cards on their own, independent of our hand: how many draws they allow and
+ * which pre-flop range they hit harder.
+ */
+export class BoardTexture {
+  public static analyze(communityCards: CardProps[]): BoardTextureInfo | null {
+    if (communityCards.length < 3) return null;
+
+    const values = communityCards.map(card => HandEvaluator.rankValue(card.rank));
+    const distinctValues = new Set(values);
+    const paired = distinctValues.size < values.length;
+    const highCard = Math.max(...values);
+    const cardsToCome = 5 - communityCards.length;
+
+    const suitCounts = new Map<string, number>();
+    communityCards.forEach(card => suitCounts.set(card.suit, (suitCounts.get(card.suit) || 0) + 1));
+    const maxSuit = Math.max(...suitCounts.values());
+    const suitedness: Suitedness = maxSuit === communityCards.length ? 'monotone' : maxSuit >= 2 ? 'two-tone' : 'rainbow';
+
+    const inWindow = this.maxRanksInStraightWindow(distinctValues);
+    const connectedness: Connectedness = inWindow >= 3 ? 'connected' : inWindow === 2 ? 'semi-connected' : 'disconnected';
+
+    let wetScore = 0;
+    if (maxSuit >= 3) wetScore += 0.4;
+    else if (maxSuit === 2 && cardsToCome > 0) wetScore += 0.2;
+    if (connectedness === 'connected') wetScore += 0.4;
+    else if (connectedness === 'semi-connected' && cardsToCome > 0) wetScore += 0.2;
+    // Broadway cards give more hands a piece of the board
+    wetScore += values.filter(value => value >= 10).length * 0.05;
+    if (paired) wetScore -= 0.1;
+    wetScore = Math.min(1, Math.max(0, wetScore));
+
+    const wetness: Wetness = wetScore < 0.25 ? 'dry' : wetScore < 0.5 ? 'semi-wet' : 'wet';
+
+    let favours: RangeAdvantage = 'neutral';
+    if (highCard >= 12 && connectedness !== 'connected') favours = 'raiser';
+    else if (highCard <= 9 && (connectedness !== 'disconnected' || paired)) favours = 'caller';
+
+    return {
+      paired,
+      suitedness,
+      flushPossible: maxSuit >= 3,
+      connectedness,
+      straightPossible: inWindow >= 3,
+      highCard,
+      wetness,
+      wetScore,
+      favours
+    };
+  }
+
+  /**
+   * How often to continuation-bet as the pre-flop raiser: often on dry boards that favour our range,
+   * rarely on wet boards that favour the callers, and less the more opponents are in the pot.
+   */
+  public static continuationBetFrequency(texture: BoardTextureInfo, opponentCount: number): number {
+    const base = texture.favours === 'raiser' ? 0.75 : texture.favours === 'caller' ? 0.4 : 0.55;
+    const wetPenalty = texture.wetness === 'wet' ? 0.1 : 0;
+    const multiwayPenalty = Math.max(0, opponentCount - 1) * 0.15;
+    return Math.min(0.9, Math.max(0.1, base - wetPenalty - multiwayPenalty));
+  }
+
+  /**
+   * Bet size as a share of the pot: small on dry boards where few hands can continue, bigger on wet
+   * boards to charge the draws.
+   */
+  public static betSizing(texture: BoardTextureInfo): number {
+    return texture.wetness === 'dry' ? 0.33 : texture.wetness === 'semi-wet' ? 0.5 : 0.75;
+  }
+
+  public static describe(texture: BoardTextureInfo): string {
+    return `${texture.wetness}, ${texture.suitedness}, ${texture.connectedness}` +
+           `${texture.paired ? ', paired' : ''}, favours ${texture.favours}`;
+  }
+
+  // Most distinct ranks that fit in any five-rank straight, counting the ace low as well
+  private static maxRanksInStraightWindow(values: Set<number>): number {
+    const ranks = new Set(values);
+    if (ranks.has(14)) ranks.add(1);
+
+    let best = 0;
+    for (let low = 1; low <= 10; low++) {
+      let count = 0;
+      for (let value = low; value < low + 5; value++) {
+        if (ranks.has(value)) count++;
+      }
+      best = Math.max(best, count);
+    }
+    return best;
+  }
+}
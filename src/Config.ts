@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './Logger';
+
+/**
+ * Settings from environment variables, falling back to the flat "key: value" entries in config.yml.
+ * The environment variable for a key is its upper-case form, e.g. STRATEGY for "strategy".
+ */
+export class Config {
+  private static readonly CONFIG_PATH = path.join(__dirname, '..', 'config.yml');
+  private static fileValues: Map<string, string> | null = null;
+
+  public static get(key: string): string | undefined {
+    const fromEnv = process.env[key.toUpperCase()];
+    if (fromEnv !== undefined && fromEnv !== '') return fromEnv;
+    return this.loadFile().get(key);
+  }
+
+  public static getNumber(key: string, defaultValue: number): number {
+    const value = this.get(key);
+    const parsed = value === undefined ? NaN : parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : defaultValue;
+  }
+
+  // Only top-level scalar entries are read, which is all config.yml holds
+  private static loadFile(): Map<string, string> {
+    if (this.fileValues) return this.fileValues;
+
+    this.fileValues = new Map();
+    try {
+      const lines = fs.readFileSync(this.CONFIG_PATH, 'utf8').split('\n');
+      for (const line of lines) {
+        const match = line.match(/^([A-Za-z_][\w-]*):\s*(.*?)\s*$/);
+        if (!match || match[2] === '') continue;
+        this.fileValues.set(match[1], match[2].replace(/^(['"])(.*)\1$/, '$2'));
+      }
+    } catch (error) {
+      // Created here rather than at load time, since Logger itself reads its level through Config;
+      // the values are already in place, so reading log_level now doesn't come back here
+      new Logger('Config').error('Error reading config.yml', error);
+    }
+    return this.fileValues;
+  }
+}
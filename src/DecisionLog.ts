@@ -0,0 +1,85 @@
+import { BetAction } from './BetLegalizer';
+import { BoardTextureInfo } from './BoardTexture';
+import { CardProps } from './Card';
+import { EquityResult } from './EquityCalculator';
+import { DrawAnalysis } from './HandEvaluator';
+import { SampledBranch } from './Random';
+import { BetAmounts } from './Strategy';
+import { StageInfo } from './TournamentStage';
+
+export interface HandEvaluation {
+  handStrength: number;
+  equity: EquityResult | null; // Null when no simulation ran
+  draws: DrawAnalysis | null; // Only after the flop
+  board: BoardTextureInfo | null;
+  stage: StageInfo;
+}
+
+// The opponent statistics a decision had to go on
+export interface OpponentStatsUsed {
+  name: string;
+  rangeCombos: number; // Size of the estimated range, see HandRange.comboCount
+  likelyHands: string[]; // The most likely starting hands in that range
+  aggressiveness: number;
+  vpip: number;
+  pfr: number;
+  aggressionFactor: number;
+  foldToContinuationBet: number;
+}
+
+export interface DecisionRecord {
+  timestamp: string;
+  gameId: string;
+  round: number;
+  betIndex: number;
+  street: string;
+  position: string;
+  holeCards: CardProps[];
+  communityCards: CardProps[];
+  pot: number;
+  toCall: number;
+  stack: number;
+  evaluation: HandEvaluation;
+  opponents: OpponentStatsUsed[];
+  strategy: string;
+  branch: string | null; // The part of the strategy that decided, when it names one
+  reasons: string[]; // What the strategy explained while deciding, i.e. which branch fired
+  mixes: SampledBranch[]; // Mixed strategies sampled on the way, with the roll and the branch taken
+  candidates: BetAmounts; // The bet sizes the strategy could choose from
+  action: BetAction; // What the strategy asked for
+  bet: number; // The legal amount we answered with
+  corrections: string[]; // Changes the legalizer made to the requested action
+  durationMs: number; // From receiving the bet request to answering it
+}
+
+/**
+ * The most recent decision traces, kept in memory for the admin endpoints.
+ */
+export class DecisionLog {
+  private static instance: DecisionLog;
+  private readonly MAX_RECORDS = 500;
+  private records: DecisionRecord[] = [];
+
+  private constructor() {}
+
+  public static getInstance(): DecisionLog {
+    if (!DecisionLog.instance) {
+      DecisionLog.instance = new DecisionLog();
+    }
+    return DecisionLog.instance;
+  }
+
+  public record(decision: DecisionRecord): void {
+    this.records.push(decision);
+    if (this.records.length > this.MAX_RECORDS) {
+      this.records.splice(0, this.records.length - this.MAX_RECORDS);
+    }
+  }
+
+  /**
+   * Up to `limit` of the latest decisions, newest first.
+   */
+  public recent(limit: number): DecisionRecord[] {
+    return this.records.slice(-Math.max(0, limit)).reverse();
+  }
+}
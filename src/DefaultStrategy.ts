@@ -0,0 +1,118 @@
+import { BetAction } from './BetLegalizer';
+import { MixedStrategy } from './Random';
+import { BetOption, DecisionContext, Strategy } from './Strategy';
+
+/**
+ * The original tournament strategy: soft play against the lowest scoring team, tight play against
+ * several aggressive opponents and counter-aggression heads-up.
+ */
+export class DefaultStrategy implements Strategy {
+  public readonly name = 'default';
+
+  // Heads-up against an aggressive opponent, by hand strength
+  private static readonly STRONG_MIX: MixedStrategy<BetOption> = { bigRaise: 0.6, hugeRaise: 0.2, call: 0.2 }; // Calls trap
+  private static readonly MEDIUM_STRONG_MIX: MixedStrategy<BetOption> = { smallRaise: 0.7, call: 0.3 };
+  private static readonly MEDIUM_RIVER_MIX: MixedStrategy<BetOption> = { smallRaise: 0.6, call: 0.4 }; // Value bet more on the river
+  private static readonly MEDIUM_MIX: MixedStrategy<BetOption> = { smallRaise: 0.4, call: 0.6 };
+  private static readonly RIVER_BLUFF_FREQUENCY = 0.25;
+  private static readonly SEMI_BLUFF_FREQUENCY = 0.15;
+
+  public decide(context: DecisionContext): BetAction {
+    const { gameState, handStrength, opponents, isHeadsUp, betAmounts } = context;
+    const avgOpponentAggression = context.averageOpponentAggression;
+
+    // Check if we're in heads-up against the lowest scoring player
+    const isLowestScoringOpponent = isHeadsUp && opponents[0] && 
+                                   context.tournamentDataService.isLowestScoreTeam(opponents[0].name);
+    
+    if (isLowestScoringOpponent) {
+      context.branch('soft-play');
+      const opponentName = opponents[0].name;
+      const lowestTeam = context.tournamentDataService.getLowestScoreTeam();
+      const trend = lowestTeam ? context.tournamentDataService.getTrend(lowestTeam.name) : null;
+      context.explain(`Strategy: Let ${opponentName} win in heads-up (lowest scoring team` +
+                     `${trend ? `, ${trend.change >= 0 ? '+' : ''}${trend.change} points since ${trend.since}` : ''})`);
+      
+      // Play very passively against the lowest scoring team
+      if (handStrength > 0.85) {
+        // Only play very strong hands, and even then just call
+        return betAmounts.call;
+      } else {
+        // Fold everything else
+        return betAmounts.fold;
+      }
+    }
+
+    // As the pre-flop raiser, keep betting on boards that suit our range even without a hand
+    const continuationBet = betAmounts.continuationBet;
+    if (continuationBet && handStrength <= 0.5 &&
+        context.choose('continuation bet', { bet: continuationBet.frequency, check: 1 - continuationBet.frequency }) === 'bet') {
+      context.branch('continuation bet');
+      context.explain(`Strategy: Continuation bet (${(continuationBet.frequency * 100).toFixed(0)}% on this board)`);
+      return continuationBet.action;
+    }
+
+    // Multiple aggressive opponents - play conservatively and wait for strong hands
+    if (!isHeadsUp && avgOpponentAggression > 0.7) {
+      context.branch('conservative');
+      context.explain("Strategy: Conservative against multiple aggressive opponents");
+      
+      if (handStrength > 0.7) {
+        return betAmounts.bigRaise; // Value bet very strong hands
+      } else if (handStrength > 0.5) {
+        return betAmounts.smallRaise; // Value bet strong hands
+      } else if (handStrength > 0.35 && gameState.toCall() <= gameState.smallBlind * 4) {
+        return betAmounts.call; // Call with medium hands if cheap
+      } else {
+        return betAmounts.fold; // Otherwise fold
+      }
+    } 
+    // Heads-up against aggressive opponent - be more aggressive to counter
+    else if (isHeadsUp && avgOpponentAggression > 0.7) {
+      context.branch('aggressive heads-up');
+      context.explain("Strategy: AGGRESSIVE heads-up play");
+      
+      if (handStrength > 0.6) {
+        // With strong hands, be very aggressive
+        return betAmounts[context.choose('strong hand heads-up', DefaultStrategy.STRONG_MIX)];
+      } else if (handStrength > 0.4) {
+        // With medium-strong hands, be aggressive
+        return betAmounts[context.choose('medium-strong hand heads-up', DefaultStrategy.MEDIUM_STRONG_MIX)];
+      } else if (handStrength > 0.3) {
+        // With medium hands, mix calls with raises
+        if (gameState.pokerRound() === 'river') {
+          return betAmounts[context.choose('medium hand heads-up on the river', DefaultStrategy.MEDIUM_RIVER_MIX)];
+        }
+        return betAmounts[context.choose('medium hand heads-up', DefaultStrategy.MEDIUM_MIX)];
+      } else if (handStrength > 0.2 && gameState.toCall() <= gameState.smallBlind * 6) {
+        // With medium-weak hands, call if cheap
+        return betAmounts.call;
+      } else if (handStrength < 0.2) {
+        // With weak hands, mix in some bluffs: on the river, and semi-bluffs on earlier streets
+        const bluffFrequency = gameState.pokerRound() === 'river' ? DefaultStrategy.RIVER_BLUFF_FREQUENCY
+          : gameState.pokerRound() === 'turn' || gameState.pokerRound() === 'flop' ? DefaultStrategy.SEMI_BLUFF_FREQUENCY
+          : 0;
+        // Call very cheap bets with any hand
+        const otherwise: BetOption = gameState.toCall() <= gameState.smallBlind * 2 ? 'call' : 'fold';
+        return betAmounts[context.choose<BetOption>('weak hand heads-up', { smallRaise: bluffFrequency, [otherwise]: 1 - bluffFrequency })];
+      } else {
+        return betAmounts.fold;
+      }
+    }
+    // Non-aggressive or mixed opponents - use default strategy with slight adjustments
+    else {
+      context.branch('default');
+      context.explain("Strategy: Default with adjustments");
+      
+      if (handStrength > 0.5) {
+        return betAmounts.bigRaise;
+      } else if (handStrength > 0.3) {
+        return betAmounts.smallRaise;
+      } else if (handStrength > 0.2 && gameState.toCall() <= gameState.smallBlind * 4) {
+        return betAmounts.call;
+      } else {
+        return betAmounts.fold;
+      }
+    }
+  }
+}
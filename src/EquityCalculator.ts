@@ -0,0 +1,229 @@
+import { CardProps } from './Card';
+import { HandEvaluator } from './HandEvaluator';
+import { HandRange } from './HandRange';
+import { RandomSource } from './Random';
+
+export interface EquityResult {
+  win: number; // Probability that we win the pot outright
+  tie: number; // Probability that we split the pot
+  equity: number; // Our expected share of the pot, counting split pots fractionally
+  samples: number; // Number of deals completed before the deadline
+}
+
+const MATH_RANDOM: RandomSource = { next: () => Math.random() };
+
+export class EquityCalculator {
+  private static readonly SUITS = ['clubs', 'spades', 'hearts', 'diamonds'];
+  private static readonly DEADLINE_CHECK_INTERVAL = 64; // Samples between clock checks
+  private static readonly MAX_SAMPLES = 50000;
+
+  /**
+   * Estimates our equity by dealing out the unknown cards at random until `sampleCount` deals are
+   * done or the time budget runs out, whichever comes first. With a seeded `random` and a sample
+   * count the budget never reaches, the result is the same every time.
+   */
+  public static calculateEquity(
+    holeCards: CardProps[],
+    communityCards: CardProps[],
+    opponentCount: number,
+    budgetMs: number,
+    random: RandomSource = MATH_RANDOM,
+    sampleCount: number = EquityCalculator.MAX_SAMPLES
+  ): EquityResult {
+    if (opponentCount <= 0) {
+      return { win: 1, tie: 0, equity: 1, samples: 0 };
+    }
+
+    const deadline = Date.now() + budgetMs;
+    const deck = this.remainingDeck([...holeCards, ...communityCards]);
+    const boardCardsNeeded = 5 - communityCards.length;
+    const cardsNeeded = boardCardsNeeded + opponentCount * 2;
+
+    if (cardsNeeded > deck.length) {
+      return { win: 0, tie: 0, equity: 0, samples: 0 };
+    }
+
+    let wins = 0;
+    let ties = 0;
+    let potShare = 0;
+    let samples = 0;
+
+    while (samples < sampleCount) {
+      if (samples % this.DEADLINE_CHECK_INTERVAL === 0 && Date.now() >= deadline) break;
+
+      this.partialShuffle(deck, cardsNeeded, random);
+      const board = [...communityCards, ...deck.slice(0, boardCardsNeeded)];
+      const ourHand = HandEvaluator.evaluateHand([...holeCards, ...board]);
+
+      let lost = false;
+      let tiedWith = 0;
+      for (let i = 0; i < opponentCount && !lost; i++) {
+        const offset = boardCardsNeeded + i * 2;
+        const opponentHand = HandEvaluator.evaluateHand([deck[offset], deck[offset + 1], ...board]);
+        const comparison = HandEvaluator.compareHands(ourHand, opponentHand);
+        if (comparison < 0) lost = true;
+        else if (comparison === 0) tiedWith++;
+      }
+
+      if (!lost) {
+        if (tiedWith === 0) {
+          wins++;
+          potShare += 1;
+        } else {
+          ties++;
+          potShare += 1 / (tiedWith + 1);
+        }
+      }
+      samples++;
+    }
+
+    if (samples === 0) {
+      return { win: 0, tie: 0, equity: 0, samples: 0 };
+    }
+
+    return {
+      win: wins / samples,
+      tie: ties / samples,
+      equity: potShare / samples,
+      samples
+    };
+  }
+
+  /**
+   * Like calculateEquity, but each opponent's cards are drawn from its estimated range instead of
+   * uniformly at random. Deals where the sampled hands collide are skipped.
+   */
+  public static calculateEquityAgainstRanges(
+    holeCards: CardProps[],
+    communityCards: CardProps[],
+    ranges: HandRange[],
+    budgetMs: number,
+    random: RandomSource = MATH_RANDOM,
+    sampleCount: number = EquityCalculator.MAX_SAMPLES
+  ): EquityResult {
+    if (ranges.length === 0) {
+      return { win: 1, tie: 0, equity: 1, samples: 0 };
+    }
+
+    const deadline = Date.now() + budgetMs;
+    const known = [...holeCards, ...communityCards];
+    const samplers = ranges.map(range => this.rangeSampler(range.clone().removeBlocked(known), random));
+    if (samplers.some(sampler => sampler === null)) {
+      return { win: 0, tie: 0, equity: 0, samples: 0 };
+    }
+    const boardCardsNeeded = 5 - communityCards.length;
+    const knownKeys = new Set(known.map(card => `${card.rank}${card.suit}`));
+
+    let wins = 0;
+    let ties = 0;
+    let potShare = 0;
+    let samples = 0;
+    let attempts = 0;
+
+    while (samples < sampleCount && attempts < sampleCount * 2) {
+      if (attempts % this.DEADLINE_CHECK_INTERVAL === 0 && Date.now() >= deadline) break;
+      attempts++;
+
+      const used = new Set(knownKeys);
+      const opponentCards: CardProps[][] = [];
+      const collided = samplers.some(sampler => {
+        const cards = sampler!();
+        const keys = cards.map(card => `${card.rank}${card.suit}`);
+        if (keys.some(key => used.has(key))) return true;
+        keys.forEach(key => used.add(key));
+        opponentCards.push(cards);
+        return false;
+      });
+      if (collided) continue;
+
+      const deck = this.remainingDeck([...known, ...opponentCards.flat()]);
+      this.partialShuffle(deck, boardCardsNeeded, random);
+      const board = [...communityCards, ...deck.slice(0, boardCardsNeeded)];
+      const ourHand = HandEvaluator.evaluateHand([...holeCards, ...board]);
+
+      let lost = false;
+      let tiedWith = 0;
+      for (const cards of opponentCards) {
+        const comparison = HandEvaluator.compareHands(ourHand, HandEvaluator.evaluateHand([...cards, ...board]));
+        if (comparison < 0) {
+          lost = true;
+          break;
+        }
+        if (comparison === 0) tiedWith++;
+      }
+
+      if (!lost) {
+        if (tiedWith === 0) {
+          wins++;
+          potShare += 1;
+        } else {
+          ties++;
+          potShare += 1 / (tiedWith + 1);
+        }
+      }
+      samples++;
+    }
+
+    if (samples === 0) {
+      return { win: 0, tie: 0, equity: 0, samples: 0 };
+    }
+
+    return {
+      win: wins / samples,
+      tie: ties / samples,
+      equity: potShare / samples,
+      samples
+    };
+  }
+
+  /**
+   * Maps equity onto the 0-1 hand strength scale used by the betting thresholds, where a fair share
+   * of the pot against this many opponents is weak and a near-certain win approaches 1.
+   */
+  public static toHandStrength(equity: number, opponentCount: number): number {
+    const fairShare = 1 / (opponentCount + 1);
+    const floor = fairShare * 0.6;
+    return Math.max(0, Math.min(1, (equity - floor) / (1 - floor)));
+  }
+
+  private static remainingDeck(knownCards: CardProps[]): CardProps[] {
+    const known = new Set(knownCards.map(card => `${card.rank}${card.suit}`));
+    const deck: CardProps[] = [];
+    for (const suit of this.SUITS) {
+      for (const rank of HandEvaluator.RANKS) {
+        if (!known.has(`${rank}${suit}`)) deck.push({ rank, suit });
+      }
+    }
+    return deck;
+  }
+
+  // Draws combos in proportion to their weight, or null for an empty range
+  private static rangeSampler(range: HandRange, random: RandomSource): (() => CardProps[]) | null {
+    const combos = range.combos();
+    if (combos.length === 0) return null;
+
+    const cumulative: number[] = [];
+    let total = 0;
+    combos.forEach(combo => cumulative.push(total += combo.weight));
+
+    return () => {
+      const target = random.next() * total;
+      let low = 0;
+      let high = cumulative.length - 1;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (cumulative[middle] <= target) low = middle + 1;
+        else high = middle;
+      }
+      return combos[low].cards;
+    };
+  }
+
+  // Moves a random selection of count cards to the front of the deck
+  private static partialShuffle(deck: CardProps[], count: number, random: RandomSource): void {
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(random.next() * (deck.length - i));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+  }
+}
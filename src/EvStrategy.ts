@@ -0,0 +1,45 @@
+import { BetAction } from './BetLegalizer';
+import { ExpectedValue } from './ExpectedValue';
+import { DecisionContext, Strategy } from './Strategy';
+import { TournamentStage } from './TournamentStage';
+
+/**
+ * Prices every option instead of comparing hand strength with fixed thresholds: folding, calling
+ * and each raise size on the sizing menu are scored by their expected chips and the best one is played.
+ */
+export class EvStrategy implements Strategy {
+  public readonly name = 'ev';
+
+  public decide(context: DecisionContext): BetAction {
+    const { gameState, betAmounts } = context;
+    // Without a simulation the static strength is the best guess at our share of the pot
+    const equity = context.equity ? context.equity.equity : context.handStrength;
+    const price = ExpectedValue.price(gameState, TournamentStage.effectiveStack(gameState));
+
+    // The whole sizing menu, without the sizes that come out the same for this stack depth
+    const { sizing } = betAmounts;
+    const options: BetAction[] = [
+      betAmounts.fold,
+      betAmounts.call,
+      betAmounts.smallRaise,
+      ...Object.values(sizing.potFractions),
+      ...(sizing.geometric ? [sizing.geometric] : []),
+      sizing.allIn
+    ];
+    if (betAmounts.continuationBet) {
+      options.push(betAmounts.continuationBet.action);
+    }
+    const candidates = options.filter((action, index) =>
+      options.findIndex(other => JSON.stringify(other) === JSON.stringify(action)) === index);
+    const evaluated = ExpectedValue.evaluate(
+      gameState, candidates, equity, context.opponents, context.playerTracker, price
+    );
+    const best = ExpectedValue.best(evaluated);
+
+    context.explain(`Pot odds: ${(price.potOdds * 100).toFixed(1)}%, implied odds: ${(price.impliedOdds * 100).toFixed(1)}%, ` +
+                   `equity: ${(equity * 100).toFixed(1)}%`);
+    context.explain(`EV: ${evaluated.map(candidate => ExpectedValue.format(candidate)).join(', ')} -> ${ExpectedValue.format(best)}`);
+
+    return best.action;
+  }
+}
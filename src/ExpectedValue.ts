@@ -0,0 +1,120 @@
+import { BetAction, BetLegalizer } from './BetLegalizer';
+import { GameState } from './GameState';
+import { Street } from './OpponentStatistics';
+import { Player } from './Player';
+import { PlayerTracker } from './PlayerTracker';
+
+export interface PriceInfo {
+  potOdds: number; // Share of the final pot we pay to call, i.e. the equity a call needs to break even
+  impliedOdds: number; // The same, counting what we expect to win on later streets when we hit
+  impliedWinnings: number; // Chips we expect to win on later streets when our hand comes good
+}
+
+export interface CandidateEv {
+  action: BetAction; // The legal action this candidate stands for
+  amount: number; // Chips added to the pot
+  ev: number; // Expected chips won or lost compared to folding now
+  foldEquity: number; // Chance everybody else folds, 0 for passive actions
+}
+
+/**
+ * Chip expected value of the actions open to us, from our equity and what the opponents tend to do.
+ */
+export class ExpectedValue {
+  // Share of another pot-sized bet we expect to win on later streets, limited by the effective stack behind
+  private static readonly IMPLIED_SHARE = 0.5;
+  // Opponents who continue against a raise hold stronger hands than a random one
+  private static readonly CALLED_EQUITY_DISCOUNT = 0.85;
+
+  public static price(gameState: GameState, effectiveStack: number): PriceInfo {
+    const toCall = Math.min(gameState.toCall(), gameState.ourPlayer().stack);
+    const impliedWinnings = gameState.pokerRound() === 'river'
+      ? 0
+      : Math.min(gameState.pot + toCall, Math.max(0, effectiveStack - gameState.ourPlayer().bet - toCall)) * this.IMPLIED_SHARE;
+
+    return {
+      potOdds: toCall > 0 ? toCall / (gameState.pot + toCall) : 0,
+      impliedOdds: toCall > 0 ? toCall / (gameState.pot + toCall + impliedWinnings) : 0,
+      impliedWinnings
+    };
+  }
+
+  /**
+   * Chance that one opponent folds to a bet, from how often they fold to continuation bets after the
+   * flop and how often they stay out of the pot before it. Bigger bets relative to the pot fold more.
+   */
+  public static foldProbability(playerTracker: PlayerTracker, opponent: Player, street: Street, betToPot: number): number {
+    const base = street === 'pre-flop'
+      ? 1 - playerTracker.getStat(opponent.name, 'vpip').value
+      : playerTracker.getStat(opponent.name, 'foldToContinuationBet', street).value;
+    const sizeFactor = Math.min(1.3, 0.2 + 1.6 * betToPot); // 1 at a half-pot bet
+    return Math.min(0.95, Math.max(0, base * sizeFactor));
+  }
+
+  /**
+   * EV of each candidate action. Duplicate candidates (e.g. two raises that are both capped at all-in)
+   * are merged.
+   */
+  public static evaluate(
+    gameState: GameState,
+    candidates: BetAction[],
+    equity: number,
+    opponents: Player[],
+    playerTracker: PlayerTracker,
+    price: PriceInfo
+  ): CandidateEv[] {
+    const results: CandidateEv[] = [];
+    const street = gameState.pokerRound() as Street;
+    const ours = gameState.ourPlayer();
+
+    for (const candidate of candidates) {
+      const { action, amount } = BetLegalizer.preview(candidate, gameState);
+      if (results.some(r => r.amount === amount && r.action.type === action.type)) continue;
+
+      if (action.type === 'fold') {
+        results.push({ action, amount, ev: 0, foldEquity: 0 });
+        continue;
+      }
+
+      const ourTotal = ours.bet + amount;
+      if (ourTotal <= gameState.currentBuyIn) {
+        // Check or call, short all-ins included: we win our share of the pot as it will stand
+        const ev = equity * (gameState.pot + amount + price.impliedWinnings) - amount;
+        results.push({ action, amount, ev, foldEquity: 0 });
+        continue;
+      }
+
+      // A raise: everybody folds, or the most dangerous opponent calls and we play the pot out
+      if (opponents.length === 0) {
+        results.push({ action, amount, ev: gameState.pot, foldEquity: 1 });
+        continue;
+      }
+      const betToPot = (ourTotal - gameState.currentBuyIn) / Math.max(1, gameState.pot);
+      const foldEquity = opponents.reduce(
+        (all, opponent) => all * this.foldProbability(playerTracker, opponent, street, betToPot), 1
+      );
+      const caller = opponents.reduce((biggest, player) => player.stack + player.bet > biggest.stack + biggest.bet ? player : biggest);
+      const callerAdds = Math.max(0, Math.min(ourTotal - caller.bet, caller.stack));
+      const calledPot = gameState.pot + amount + callerAdds + price.impliedWinnings;
+      const calledEv = equity * this.CALLED_EQUITY_DISCOUNT * calledPot - amount;
+      const ev = foldEquity * gameState.pot + (1 - foldEquity) * calledEv;
+      results.push({ action, amount, ev, foldEquity });
+    }
+
+    return results;
+  }
+
+  public static best(candidates: CandidateEv[]): CandidateEv {
+    // On equal EV prefer the cheaper action, and staying in the hand over folding for free
+    const betterTie = (candidate: CandidateEv, best: CandidateEv) =>
+      candidate.amount < best.amount ||
+      (candidate.amount === best.amount && best.action.type === 'fold' && candidate.action.type !== 'fold');
+    return candidates.reduce((best, candidate) =>
+      candidate.ev > best.ev || (candidate.ev === best.ev && betterTie(candidate, best)) ? candidate : best);
+  }
+
+  public static format(candidate: CandidateEv): string {
+    const fold = candidate.foldEquity > 0 ? `, fold equity ${(candidate.foldEquity * 100).toFixed(0)}%` : '';
+    return `${BetLegalizer.describe(candidate.action)} ${candidate.ev >= 0 ? '+' : ''}${candidate.ev.toFixed(1)}${fold}`;
+  }
+}
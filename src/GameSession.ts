@@ -0,0 +1,125 @@
+import { Config } from './Config';
+import { GameState } from './GameState';
+import { HandRange } from './HandRange';
+import { HandReconstructor } from './HandReconstructor';
+import { HandSummary } from './OpponentStatistics';
+
+export interface HandInProgress extends HandSummary {
+  gameId: string;
+  round: number;
+  playerNames: Map<number, string>; // Seat id to name for everyone dealt into the hand
+  ranges: Map<number, HandRange>; // By seat id, for the opponents that have acted so far
+}
+
+export interface SessionResults {
+  startingChips: number; // Our stack plus bet the first time we saw the game
+  chips: number; // Our stack plus bet in the latest payload
+  peakChips: number;
+  handsPlayed: number; // Hands of this game we have seen
+  betRequests: number;
+}
+
+export interface SessionSummary extends SessionResults {
+  gameId: string;
+  tournamentId: string;
+  round: number;
+  startedAt: string;
+  lastSeen: string;
+}
+
+/**
+ * What we know about one sit'n'go game: the hand being played, its reconstructed actions and how
+ * our stack has done so far. Lean Poker can run us in several games at once, so none of this may be
+ * shared between games.
+ */
+export class GameSession {
+  public readonly handReconstructor = new HandReconstructor();
+  public currentHand?: HandInProgress;
+  public readonly results: SessionResults;
+  public readonly startedAt = Date.now();
+  public lastSeen = Date.now();
+  private round: number;
+
+  constructor(public readonly gameId: string, public readonly tournamentId: string, gameState: GameState) {
+    const chips = GameSession.ourChips(gameState);
+    this.round = gameState.round;
+    this.results = { startingChips: chips, chips, peakChips: chips, handsPlayed: 1, betRequests: 0 };
+  }
+
+  /**
+   * Updates our results from a bet request or showdown payload of this game.
+   */
+  public observe(gameState: GameState, isBetRequest: boolean): void {
+    this.lastSeen = Date.now();
+    if (gameState.round > this.round) {
+      this.results.handsPlayed += gameState.round - this.round;
+      this.round = gameState.round;
+    }
+    if (isBetRequest) this.results.betRequests++;
+
+    this.results.chips = GameSession.ourChips(gameState);
+    this.results.peakChips = Math.max(this.results.peakChips, this.results.chips);
+  }
+
+  public summary(): SessionSummary {
+    return {
+      gameId: this.gameId,
+      tournamentId: this.tournamentId,
+      round: this.round,
+      ...this.results,
+      startedAt: new Date(this.startedAt).toISOString(),
+      lastSeen: new Date(this.lastSeen).toISOString()
+    };
+  }
+
+  private static ourChips(gameState: GameState): number {
+    const ours = gameState.ourPlayer();
+    return ours ? ours.stack + ours.bet : 0;
+  }
+}
+
+/**
+ * The open game sessions by game_id. A session that hears nothing for `session_idle_minutes`
+ * (30 by default) is taken to be over and is evicted.
+ */
+export class GameSessions {
+  private static instance: GameSessions;
+  private static readonly DEFAULT_IDLE_MINUTES = 30;
+  private sessions: Map<string, GameSession> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): GameSessions {
+    if (!GameSessions.instance) {
+      GameSessions.instance = new GameSessions();
+    }
+    return GameSessions.instance;
+  }
+
+  public sessionFor(gameState: GameState): GameSession {
+    let session = this.sessions.get(gameState.gameId);
+    if (!session) {
+      session = new GameSession(gameState.gameId, gameState.tournamentId, gameState);
+      this.sessions.set(gameState.gameId, session);
+    }
+    return session;
+  }
+
+  public find(gameId: string): GameSession | undefined {
+    return this.sessions.get(gameId);
+  }
+
+  /**
+   * Removes and returns the sessions that have been idle for too long.
+   */
+  public evictIdle(now: number = Date.now()): GameSession[] {
+    const idleMs = Config.getNumber('session_idle_minutes', GameSessions.DEFAULT_IDLE_MINUTES) * 60000;
+    const evicted = Array.from(this.sessions.values()).filter(session => now - session.lastSeen > idleMs);
+    evicted.forEach(session => this.sessions.delete(session.gameId));
+    return evicted;
+  }
+
+  public all(): GameSession[] {
+    return Array.from(this.sessions.values());
+  }
+}
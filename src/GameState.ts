@@ -17,6 +17,10 @@ export interface GameStateProps {
   community_cards: CardProps[]; // Array of community cards
 }
 
+// Seat labels, from first to act pre-flop to the blinds. Tables too small for every label drop
+// UTG, MP, HJ and CO in that order; heads-up the button also posts the small blind.
+export type Position = 'UTG' | 'MP' | 'HJ' | 'CO' | 'BTN' | 'SB' | 'BB';
+
 export class GameState {
   tournamentId: string;
   gameId: string;
@@ -69,18 +73,94 @@ export class GameState {
     return 'unknown';
   }
 
+  /**
+   * Coarse position for bet sizing: the button and cutoff act late, the blinds and the first seats
+   * act early after the flop.
+   */
   position(): string {
-    const dealerPosition = this.dealer;
-    const ourPosition = this.inAction;
-    const playerCount = this.activePlayers().length;
+    const position = this.ourPosition();
+    if (position === 'BTN' || position === 'CO') return 'late';
+    if (position === 'HJ' || position === 'MP') return 'middle';
+    return 'early';
+  }
+
+  ourPosition(): Position {
+    return this.positionOf(this.inAction);
+  }
+
+  positionOf(playerIndex: number): Position {
+    const order = this.preFlopOrder();
+    const place = order.indexOf(playerIndex);
+    if (place === -1) {
+      throw new Error(`Player ${playerIndex} is not seated in the hand`);
+    }
+
+    if (order.length === 2) return playerIndex === this.smallBlindIndex() ? 'BTN' : 'BB';
+
+    // Pre-flop order ends with the blinds, and the seats before them count back from the button
+    const fromEnd = order.length - 1 - place;
+    const labels: Position[] = ['BB', 'SB', 'BTN', 'CO', 'HJ'];
+    if (fromEnd < labels.length) return labels[fromEnd];
+    return place === 0 ? 'UTG' : 'MP';
+  }
+
+  smallBlindIndex(): number {
+    // Heads-up the dealer posts the small blind
+    const seats = this.seatedIndices();
+    return seats.length === 2 ? this.dealer : this.nextSeated(this.dealer);
+  }
+
+  bigBlindIndex(): number {
+    return this.nextSeated(this.smallBlindIndex());
+  }
+
+  blinds(): { smallBlind: Player, bigBlind: Player } {
+    return { smallBlind: this.players[this.smallBlindIndex()], bigBlind: this.players[this.bigBlindIndex()] };
+  }
 
-    const positionFromDealer = (ourPosition - dealerPosition - 1 + playerCount) % playerCount;
+  /**
+   * Indices of the players still in the game in the order they act on the given street. Pre-flop
+   * starts after the big blind, later streets after the dealer.
+   */
+  actionOrder(street: string = this.pokerRound()): number[] {
+    return street === 'pre-flop' ? this.preFlopOrder() : this.seatedFrom(this.nextSeated(this.dealer));
+  }
+
+  /**
+   * Players seated after us in this street's action order who can still bet, i.e. who have not folded
+   * and are not all-in.
+   */
+  playersLeftToAct(): Player[] {
+    const order = this.actionOrder();
+    return order
+      .slice(order.indexOf(this.inAction) + 1)
+      .map(index => this.players[index])
+      .filter(player => player.status === 'active' && player.stack > 0);
+  }
 
-    const earlyPositionThreshold = Math.floor(playerCount / 3);
-    const middlePositionThreshold = Math.floor(2 * playerCount / 3);
+  private preFlopOrder(): number[] {
+    return this.seatedFrom(this.nextSeated(this.bigBlindIndex()));
+  }
+
+  // Indices of every player who has not been knocked out, in seat order starting at `start`
+  private seatedFrom(start: number): number[] {
+    const seats = this.seatedIndices();
+    const offset = Math.max(0, seats.indexOf(start));
+    return [...seats.slice(offset), ...seats.slice(0, offset)];
+  }
+
+  private seatedIndices(): number[] {
+    return this.players
+      .map((player, index) => ({ player, index }))
+      .filter(seat => seat.player.status !== 'out')
+      .map(seat => seat.index);
+  }
 
-    if (positionFromDealer < earlyPositionThreshold) return 'early';
-    if (positionFromDealer < middlePositionThreshold) return 'middle';
-    return 'late';
+  private nextSeated(from: number): number {
+    for (let offset = 1; offset <= this.players.length; offset++) {
+      const index = (from + offset) % this.players.length;
+      if (this.players[index].status !== 'out') return index;
+    }
+    return from;
   }
 }
@@ -0,0 +1,198 @@
+import { CardProps } from './Card';
+import { GameStateProps } from './GameState';
+import { PlayerProps } from './Player';
+
+export interface ValidationError {
+  path: string; // Where the problem is, e.g. "players[1].hole_cards[0].suit"
+  message: string;
+}
+
+export type ValidationResult =
+  | { valid: true, props: GameStateProps }
+  | { valid: false, errors: ValidationError[] };
+
+/**
+ * Checks a `game_state` payload before it reaches GameState, so a malformed request is reported with
+ * the offending path instead of failing somewhere inside the hand evaluation. Cards are normalised to
+ * the ranks 2-10, J, Q, K, A and the four suit names, and may also arrive as strings like "Th" or "10♥".
+ */
+export class GameStateValidator {
+  private static readonly RANKS: { [notation: string]: string } = {
+    '2': '2', '3': '3', '4': '4', '5': '5', '6': '6', '7': '7', '8': '8', '9': '9', '10': '10', 't': '10',
+    'j': 'J', 'jack': 'J', 'q': 'Q', 'queen': 'Q', 'k': 'K', 'king': 'K', 'a': 'A', 'ace': 'A'
+  };
+  private static readonly SUITS: { [notation: string]: string } = {
+    'c': 'clubs', 'club': 'clubs', 'clubs': 'clubs', '♣': 'clubs',
+    's': 'spades', 'spade': 'spades', 'spades': 'spades', '♠': 'spades',
+    'h': 'hearts', 'heart': 'hearts', 'hearts': 'hearts', '♥': 'hearts',
+    'd': 'diamonds', 'diamond': 'diamonds', 'diamonds': 'diamonds', '♦': 'diamonds'
+  };
+  private static readonly STATUSES: PlayerProps['status'][] = ['active', 'folded', 'out'];
+  private static readonly BOARD_SIZES = [0, 3, 4, 5];
+
+  /**
+   * Accepts the payload either as the JSON text Lean Poker posts or as an already parsed object.
+   */
+  public static validate(input: unknown): ValidationResult {
+    let data = input;
+    if (typeof input === 'string') {
+      try {
+        data = JSON.parse(input);
+      } catch (error) {
+        return { valid: false, errors: [{ path: '', message: `Invalid JSON: ${error instanceof Error ? error.message : error}` }] };
+      }
+    }
+
+    const errors: ValidationError[] = [];
+    const props = this.gameState(data, errors);
+    return props && errors.length === 0 ? { valid: true, props } : { valid: false, errors };
+  }
+
+  public static normalizeCard(input: unknown, path: string, errors: ValidationError[]): CardProps | null {
+    let rank: unknown;
+    let suit: unknown;
+    if (typeof input === 'string') {
+      const match = input.trim().match(/^(10|[2-9tjqka])\s*(\S+)$/i);
+      if (!match) {
+        errors.push({ path, message: `"${input}" is not a card` });
+        return null;
+      }
+      [, rank, suit] = match;
+    } else if (this.isObject(input)) {
+      ({ rank, suit } = input);
+    } else {
+      errors.push({ path, message: 'expected a card' });
+      return null;
+    }
+
+    const normalizedRank = this.RANKS[String(rank).trim().toLowerCase()];
+    const normalizedSuit = this.SUITS[String(suit).trim().toLowerCase()];
+    if (!normalizedRank) errors.push({ path: `${path}.rank`, message: `unknown rank ${JSON.stringify(rank)}` });
+    if (!normalizedSuit) errors.push({ path: `${path}.suit`, message: `unknown suit ${JSON.stringify(suit)}` });
+    return normalizedRank && normalizedSuit ? { rank: normalizedRank, suit: normalizedSuit } : null;
+  }
+
+  private static gameState(data: unknown, errors: ValidationError[]): GameStateProps | null {
+    if (!this.isObject(data)) {
+      errors.push({ path: '', message: 'expected an object' });
+      return null;
+    }
+
+    const players = this.array(data, 'players', '', errors)
+      .map((player, index) => this.player(player, `players[${index}]`, errors));
+    if (Array.isArray(data['players']) && players.length < 2) {
+      errors.push({ path: 'players', message: 'expected at least two players' });
+    }
+
+    const communityCards = this.cards(data, 'community_cards', '', errors);
+    if (!this.BOARD_SIZES.includes(communityCards.length)) {
+      errors.push({ path: 'community_cards', message: `expected 0, 3, 4 or 5 cards, got ${communityCards.length}` });
+    }
+
+    const props: GameStateProps = {
+      tournament_id: this.string(data, 'tournament_id', '', errors),
+      game_id: this.string(data, 'game_id', '', errors),
+      round: this.count(data, 'round', '', errors),
+      bet_index: this.count(data, 'bet_index', '', errors),
+      small_blind: this.count(data, 'small_blind', '', errors),
+      current_buy_in: this.count(data, 'current_buy_in', '', errors),
+      pot: this.count(data, 'pot', '', errors),
+      minimum_raise: this.count(data, 'minimum_raise', '', errors),
+      dealer: this.seat(data, 'dealer', players.length, errors),
+      orbits: this.count(data, 'orbits', '', errors),
+      in_action: this.seat(data, 'in_action', players.length, errors),
+      players: players.filter((player): player is PlayerProps => player !== null),
+      community_cards: communityCards
+    };
+
+    this.checkDuplicateCards(props, errors);
+    return props;
+  }
+
+  private static player(data: unknown, path: string, errors: ValidationError[]): PlayerProps | null {
+    if (!this.isObject(data)) {
+      errors.push({ path, message: 'expected a player object' });
+      return null;
+    }
+
+    const status = data['status'];
+    if (!this.STATUSES.includes(status as PlayerProps['status'])) {
+      errors.push({ path: `${path}.status`, message: `expected one of ${this.STATUSES.join(', ')}` });
+    }
+
+    return {
+      id: this.count(data, 'id', path, errors),
+      name: this.string(data, 'name', path, errors),
+      status: status as PlayerProps['status'],
+      version: data['version'] === undefined || data['version'] === null ? '' : String(data['version']),
+      stack: this.count(data, 'stack', path, errors),
+      bet: this.count(data, 'bet', path, errors),
+      hole_cards: data['hole_cards'] === undefined || data['hole_cards'] === null ? undefined : this.cards(data, 'hole_cards', path, errors)
+    };
+  }
+
+  private static cards(data: { [key: string]: unknown }, key: string, path: string, errors: ValidationError[]): CardProps[] {
+    return this.array(data, key, path, errors)
+      .map((card, index) => this.normalizeCard(card, `${this.join(path, key)}[${index}]`, errors))
+      .filter((card): card is CardProps => card !== null);
+  }
+
+  private static checkDuplicateCards(props: GameStateProps, errors: ValidationError[]): void {
+    const seen = new Map<string, string>();
+    const check = (card: CardProps, path: string) => {
+      const key = `${card.rank} ${card.suit}`;
+      const first = seen.get(key);
+      if (first) errors.push({ path, message: `duplicate card, also at ${first}` });
+      else seen.set(key, path);
+    };
+
+    props.community_cards.forEach((card, index) => check(card, `community_cards[${index}]`));
+    props.players.forEach((player, playerIndex) => (player.hole_cards || [])
+      .forEach((card, index) => check(card, `players[${playerIndex}].hole_cards[${index}]`)));
+  }
+
+  // A seat index that must point at one of the players
+  private static seat(data: { [key: string]: unknown }, key: string, playerCount: number, errors: ValidationError[]): number {
+    const value = this.count(data, key, '', errors);
+    if (Number.isInteger(data[key]) && playerCount > 0 && value >= playerCount) {
+      errors.push({ path: key, message: `seat ${value} does not exist, there are ${playerCount} players` });
+    }
+    return value;
+  }
+
+  // A non-negative integer: chips, indices and counters
+  private static count(data: { [key: string]: unknown }, key: string, path: string, errors: ValidationError[]): number {
+    const value = data[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      errors.push({ path: this.join(path, key), message: `expected a non-negative integer, got ${JSON.stringify(value)}` });
+      return 0;
+    }
+    return value;
+  }
+
+  private static string(data: { [key: string]: unknown }, key: string, path: string, errors: ValidationError[]): string {
+    const value = data[key];
+    if (typeof value !== 'string') {
+      errors.push({ path: this.join(path, key), message: `expected a string, got ${JSON.stringify(value)}` });
+      return '';
+    }
+    return value;
+  }
+
+  private static array(data: { [key: string]: unknown }, key: string, path: string, errors: ValidationError[]): unknown[] {
+    const value = data[key];
+    if (!Array.isArray(value)) {
+      errors.push({ path: this.join(path, key), message: 'expected an array' });
+      return [];
+    }
+    return value;
+  }
+
+  private static isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static join(path: string, key: string): string {
+    return path === '' ? key : `${path}.${key}`;
+  }
+}
@@ -1,7 +1,57 @@
 import { CardProps } from './Card';
 
+export enum HandCategory {
+  HighCard,
+  OnePair,
+  TwoPair,
+  ThreeOfAKind,
+  Straight,
+  Flush,
+  FullHouse,
+  FourOfAKind,
+  StraightFlush
+}
+
+export interface HandRank {
+  category: HandCategory;
+  kickers: number[]; // Rank values (2-14) in order of significance, used to break ties within a category
+}
+
+export type DrawType =
+  | 'flush draw'
+  | 'open-ended straight draw'
+  | 'gutshot'
+  | 'backdoor flush draw'
+  | 'backdoor straight draw'
+  | 'overcards';
+
+export interface DrawAnalysis {
+  draws: DrawType[];
+  rawOuts: number; // Unseen cards that improve our hand on the next card
+  outs: number; // The same, discounted for outs that may not give us the best hand
+  hitNextCard: number; // Chance the next card is one of our outs
+  hitByRiver: number; // Chance of hitting by the river, runner-runner backdoor draws included
+  usesHoleCards: boolean; // Our made hand is better than the board's, rather than the board playing
+}
+
+// How a made hand relates to the board, used to describe hands revealed at showdown
+export type MadeHandClass = 'air' | 'weak pair' | 'second pair' | 'top pair' | 'two pair or better';
+
 export class HandEvaluator {
-  private static readonly RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+  public static readonly RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+
+  // Base strength of each made hand category, on the same 0-1 scale as the pre-flop estimate
+  private static readonly CATEGORY_STRENGTH: { [category in HandCategory]: number } = {
+    [HandCategory.HighCard]: 0.1,
+    [HandCategory.OnePair]: 0.42,
+    [HandCategory.TwoPair]: 0.62,
+    [HandCategory.ThreeOfAKind]: 0.7,
+    [HandCategory.Straight]: 0.76,
+    [HandCategory.Flush]: 0.82,
+    [HandCategory.FullHouse]: 0.88,
+    [HandCategory.FourOfAKind]: 0.94,
+    [HandCategory.StraightFlush]: 0.98
+  };
 
   public static evaluateHandStrength(holeCards: CardProps[], communityCards: CardProps[]): number {
     if (communityCards.length === 0) {
@@ -10,14 +60,215 @@ export class HandEvaluator {
 
     const allCards = [...holeCards, ...communityCards];
 
-    if (this.hasPair(allCards)) return 0.5;
-    if (this.hasFlushDraw(allCards)) return 0.4;
-    if (this.hasStraightDraw(allCards)) return 0.3;
+    // Only count a made hand if our hole cards improve on what the board already shows
+    const ourHand = this.rankCards(allCards);
+    const boardHand = this.rankCards(communityCards);
+    if (ourHand.category > boardHand.category) {
+      return this.madeHandStrength(ourHand);
+    }
+
+    // Drawing hands are worth about their chance of getting there
+    const analysis = this.analyzeDraws(holeCards, communityCards);
+    if (analysis.draws.some(draw => draw === 'flush draw' || draw === 'open-ended straight draw' || draw === 'gutshot')) {
+      return 0.1 + analysis.hitByRiver * 0.8;
+    }
 
     const highCard = this.getHighCardValue(holeCards);
     return 0.1 + (highCard / 15);
   }
 
+  /**
+   * Counts the outs our hole cards give us on the current board. A card is an out when it improves
+   * our hand to something the board alone doesn't show. Outs are discounted when they may not be
+   * good: a pair from unpaired hole cards, or a straight or flush that pairs the board or puts a
+   * flush on it for someone else.
+   */
+  public static analyzeDraws(holeCards: CardProps[], communityCards: CardProps[]): DrawAnalysis {
+    const allCards = [...holeCards, ...communityCards];
+    const current = this.rankCards(allCards);
+    const usesHoleCards = current.category > this.rankCards(communityCards).category;
+    const cardsToCome = 5 - communityCards.length;
+
+    if (communityCards.length < 3 || cardsToCome <= 0) {
+      return { draws: [], rawOuts: 0, outs: 0, hitNextCard: 0, hitByRiver: 0, usesHoleCards };
+    }
+
+    const unseen = this.unseenCards(allCards);
+    const boardValues = new Set(communityCards.map(card => this.rankValue(card.rank)));
+    let rawOuts = 0;
+    let outs = 0;
+
+    for (const card of unseen) {
+      const improved = this.rankCards([...allCards, card]);
+      const board = this.rankCards([...communityCards, card]);
+      if (improved.category <= current.category || improved.category <= board.category) continue;
+
+      rawOuts++;
+      const pairsBoard = boardValues.has(this.rankValue(card.rank));
+      const boardSuited = [...communityCards, card].some(boardCard =>
+        communityCards.filter(c => c.suit === boardCard.suit).length + (card.suit === boardCard.suit ? 1 : 0) >= 3
+      );
+      if (improved.category === HandCategory.OnePair) {
+        outs += 0.5;
+      } else if (improved.category === HandCategory.Straight && (boardSuited || pairsBoard)) {
+        outs += 0.5;
+      } else if (improved.category === HandCategory.Flush && pairsBoard) {
+        outs += 0.5;
+      } else {
+        outs += 1;
+      }
+    }
+
+    const draws = this.classifyDraws(holeCards, communityCards, current);
+    const hitNextCard = outs / unseen.length;
+    let hitByRiver = hitNextCard;
+    if (cardsToCome === 2) {
+      hitByRiver = 1 - (1 - hitNextCard) * (1 - outs / (unseen.length - 1));
+      // Runner-runner: roughly 4% for a backdoor flush and 3% for a backdoor straight
+      if (draws.includes('backdoor flush draw')) hitByRiver += 0.04;
+      if (draws.includes('backdoor straight draw')) hitByRiver += 0.03;
+    }
+
+    return { draws, rawOuts, outs, hitNextCard, hitByRiver: Math.min(1, hitByRiver), usesHoleCards };
+  }
+
+  /**
+   * Ranks the best five-card hand out of 5-7 cards.
+   */
+  public static evaluateHand(cards: CardProps[]): HandRank {
+    if (cards.length < 5 || cards.length > 7) {
+      throw new Error(`Expected 5 to 7 cards, got ${cards.length}`);
+    }
+    return this.rankCards(cards);
+  }
+
+  /**
+   * Returns a positive number if hand a beats hand b, a negative number if it loses and 0 for a tie.
+   */
+  public static compareHands(a: HandRank, b: HandRank): number {
+    if (a.category !== b.category) return a.category - b.category;
+
+    for (let i = 0; i < Math.min(a.kickers.length, b.kickers.length); i++) {
+      if (a.kickers[i] !== b.kickers[i]) return a.kickers[i] - b.kickers[i];
+    }
+    return 0;
+  }
+
+  /**
+   * Describes what the hole cards add to the board, e.g. "second pair" or "air" when they play the board.
+   */
+  public static classifyMadeHand(holeCards: CardProps[], communityCards: CardProps[]): MadeHandClass {
+    const hand = this.rankCards([...holeCards, ...communityCards]);
+    const boardHand = this.rankCards(communityCards);
+
+    if (hand.category < boardHand.category) return 'air';
+    if (hand.category === boardHand.category) {
+      // A higher straight, flush or full house than the board's own is made with our cards; a better
+      // kicker to the board's pair, trips or quads is not
+      const improvesBoard = hand.category !== HandCategory.FourOfAKind && hand.category >= HandCategory.Straight &&
+                            this.compareHands(hand, boardHand) > 0;
+      return improvesBoard ? 'two pair or better' : 'air';
+    }
+    if (hand.category >= HandCategory.TwoPair) return 'two pair or better';
+
+    const boardRanks = Array.from(new Set(communityCards.map(card => this.rankValue(card.rank))))
+      .sort((a, b) => b - a);
+    const pairRank = hand.kickers[0];
+
+    // Overpairs count as top pair
+    if (pairRank >= boardRanks[0]) return 'top pair';
+    if (pairRank >= boardRanks[1]) return 'second pair';
+    return 'weak pair';
+  }
+
+  public static rankValue(rank: string): number {
+    return this.RANKS.indexOf(rank) + 2;
+  }
+
+  // Works on any number of cards so the board can be ranked on its own before the river
+  private static rankCards(cards: CardProps[]): HandRank {
+    const values = cards.map(card => this.rankValue(card.rank)).sort((a, b) => b - a);
+
+    const rankCounts = new Map<number, number>();
+    const suitValues = new Map<string, number[]>();
+    for (const card of cards) {
+      const value = this.rankValue(card.rank);
+      rankCounts.set(value, (rankCounts.get(value) || 0) + 1);
+      suitValues.set(card.suit, [...(suitValues.get(card.suit) || []), value]);
+    }
+
+    const flushValues = Array.from(suitValues.values())
+      .find(suited => suited.length >= 5)
+      ?.sort((a, b) => b - a);
+
+    if (flushValues) {
+      const straightFlushHigh = this.straightHigh(flushValues);
+      if (straightFlushHigh) {
+        return { category: HandCategory.StraightFlush, kickers: [straightFlushHigh] };
+      }
+    }
+
+    // Group ranks by how many times they appear, most frequent and then highest first
+    const groups = Array.from(rankCounts.entries())
+      .sort(([rankA, countA], [rankB, countB]) => countB - countA || rankB - rankA);
+    const kickersExcluding = (...used: number[]) => values.filter(value => !used.includes(value));
+
+    const [topRank, topCount] = groups[0];
+
+    if (topCount === 4) {
+      return { category: HandCategory.FourOfAKind, kickers: [topRank, ...kickersExcluding(topRank).slice(0, 1)] };
+    }
+
+    if (topCount === 3 && groups.length > 1 && groups[1][1] >= 2) {
+      return { category: HandCategory.FullHouse, kickers: [topRank, groups[1][0]] };
+    }
+
+    if (flushValues) {
+      return { category: HandCategory.Flush, kickers: flushValues.slice(0, 5) };
+    }
+
+    const straightHigh = this.straightHigh(values);
+    if (straightHigh) {
+      return { category: HandCategory.Straight, kickers: [straightHigh] };
+    }
+
+    if (topCount === 3) {
+      return { category: HandCategory.ThreeOfAKind, kickers: [topRank, ...kickersExcluding(topRank).slice(0, 2)] };
+    }
+
+    if (topCount === 2 && groups.length > 1 && groups[1][1] === 2) {
+      const secondRank = groups[1][0];
+      return {
+        category: HandCategory.TwoPair,
+        kickers: [topRank, secondRank, ...kickersExcluding(topRank, secondRank).slice(0, 1)]
+      };
+    }
+
+    if (topCount === 2) {
+      return { category: HandCategory.OnePair, kickers: [topRank, ...kickersExcluding(topRank).slice(0, 3)] };
+    }
+
+    return { category: HandCategory.HighCard, kickers: values.slice(0, 5) };
+  }
+
+  // Highest card of a five-card run in the given values, counting the ace low for the wheel (A-2-3-4-5)
+  private static straightHigh(values: number[]): number | null {
+    const present = new Set(values);
+    if (present.has(14)) present.add(1);
+
+    for (let high = 14; high >= 5; high--) {
+      let run = 0;
+      while (run < 5 && present.has(high - run)) run++;
+      if (run === 5) return high;
+    }
+    return null;
+  }
+
+  private static madeHandStrength(hand: HandRank): number {
+    // Nudge the strength up within the category by the rank that defines the hand
+    return this.CATEGORY_STRENGTH[hand.category] + (hand.kickers[0] - 2) / 12 * 0.04;
+  }
+
   private static evaluatePreFlopHand(holeCards: CardProps[]): number {
     const ranks = holeCards.map(card => card.rank);
     const suits = holeCards.map(card => card.suit);
@@ -46,35 +297,64 @@ export class HandEvaluator {
     return 0.1;
   }
 
-  private static hasPair(cards: CardProps[]): boolean {
-    const ranks = cards.map(card => card.rank);
-    return ranks.some((rank, i) => ranks.indexOf(rank) !== i);
-  }
+  // Only draws that need at least one of our hole cards count
+  private static classifyDraws(holeCards: CardProps[], communityCards: CardProps[], current: HandRank): DrawType[] {
+    const draws: DrawType[] = [];
+    const allCards = [...holeCards, ...communityCards];
 
-  private static hasFlushDraw(cards: CardProps[]): boolean {
-    const suitCounts: { [key: string]: number } = {};
-    for (const card of cards) {
-      suitCounts[card.suit] = (suitCounts[card.suit] || 0) + 1;
+    if (current.category < HandCategory.Flush) {
+      const suitCount = (suit: string) => allCards.filter(card => card.suit === suit).length;
+      const holeSuitCounts = holeCards.map(card => suitCount(card.suit));
+      if (holeSuitCounts.some(count => count === 4)) draws.push('flush draw');
+      else if (communityCards.length === 3 && holeSuitCounts.some(count => count === 3)) draws.push('backdoor flush draw');
     }
-    return Object.values(suitCounts).some(count => count >= 4);
-  }
 
-  private static hasStraightDraw(cards: CardProps[]): boolean {
-    const rankValues = cards.map(card => this.RANKS.indexOf(card.rank)).sort((a, b) => a - b);
-    let consecutiveCount = 1;
+    if (current.category < HandCategory.Straight) {
+      const values = new Set(allCards.map(card => this.rankValue(card.rank)));
+      const boardValues = communityCards.map(card => this.rankValue(card.rank));
+      // Ranks that would complete a straight our board couldn't make without our hole cards
+      const completing = [14, 13, 12, 11, 10, 9, 8, 7, 6, 5, 4, 3, 2].filter(value =>
+        !values.has(value) &&
+        this.straightHigh([...values, value]) !== null &&
+        this.straightHigh([...boardValues, value]) === null
+      );
+      if (completing.length >= 2) draws.push('open-ended straight draw');
+      else if (completing.length === 1) draws.push('gutshot');
+      else if (communityCards.length === 3 && this.hasBackdoorStraightDraw(holeCards, values)) draws.push('backdoor straight draw');
+    }
 
-    for (let i = 1; i < rankValues.length; i++) {
-      if (rankValues[i] === rankValues[i - 1] + 1) {
-        consecutiveCount++;
-        if (consecutiveCount >= 4) return true;
-      } else if (rankValues[i] !== rankValues[i - 1]) {
-        consecutiveCount = 1;
-      }
+    const boardHigh = Math.max(...communityCards.map(card => this.rankValue(card.rank)));
+    if (current.category === HandCategory.HighCard && holeCards.every(card => this.rankValue(card.rank) > boardHigh)) {
+      draws.push('overcards');
     }
 
+    return draws;
+  }
+
+  // Three ranks within one five-card straight, at least one of them ours
+  private static hasBackdoorStraightDraw(holeCards: CardProps[], values: Set<number>): boolean {
+    const ranks = new Set(values);
+    if (ranks.has(14)) ranks.add(1);
+    const holeValues = holeCards.flatMap(card => {
+      const value = this.rankValue(card.rank);
+      return value === 14 ? [14, 1] : [value];
+    });
+
+    for (let low = 1; low <= 10; low++) {
+      const window = [0, 1, 2, 3, 4].map(offset => low + offset);
+      const present = window.filter(value => ranks.has(value));
+      if (present.length >= 3 && present.some(value => holeValues.includes(value))) return true;
+    }
     return false;
   }
 
+  private static unseenCards(known: CardProps[]): CardProps[] {
+    const seen = new Set(known.map(card => `${card.rank}${card.suit}`));
+    return ['clubs', 'spades', 'hearts', 'diamonds']
+      .flatMap(suit => this.RANKS.map(rank => ({ rank, suit })))
+      .filter(card => !seen.has(`${card.rank}${card.suit}`));
+  }
+
   private static getHighCardValue(cards: CardProps[]): number {
     return Math.max(...cards.map(card => this.RANKS.indexOf(card.rank)));
   }
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { GameStateProps } from './GameState';
+import { Logger } from './Logger';
+
+const logger = new Logger('HandHistoryRecorder');
+
+export interface HandHistoryEntry {
+  timestamp: string;
+  action: 'bet_request' | 'showdown';
+  game_state: GameStateProps;
+  bet?: number; // The bet we answered with, only present for bet requests
+}
+
+export class HandHistoryRecorder {
+  private static instance: HandHistoryRecorder;
+  private readonly DIRECTORY = process.env['HAND_HISTORY_DIR'] || 'tmp/hand-history';
+  private readonly FILE_NAME = 'hand-history';
+  private readonly MAX_FILE_BYTES = 10 * 1024 * 1024; // 10 MB
+  private readonly MAX_ROTATED_FILES = 5;
+  private currentFileBytes: number | null = null;
+  // Appends are chained so that entries stay in order and rotation never races a write
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  public static getInstance(): HandHistoryRecorder {
+    if (!HandHistoryRecorder.instance) {
+      HandHistoryRecorder.instance = new HandHistoryRecorder();
+    }
+    return HandHistoryRecorder.instance;
+  }
+
+  public recordBetRequest(gameState: GameStateProps, bet: number): void {
+    this.record({ timestamp: new Date().toISOString(), action: 'bet_request', game_state: gameState, bet });
+  }
+
+  public recordShowdown(gameState: GameStateProps): void {
+    this.record({ timestamp: new Date().toISOString(), action: 'showdown', game_state: gameState });
+  }
+
+  public currentFilePath(): string {
+    return path.join(this.DIRECTORY, `${this.FILE_NAME}.jsonl`);
+  }
+
+  private record(entry: HandHistoryEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+    this.writeQueue = this.writeQueue
+      .then(() => this.append(line))
+      .catch(error => logger.error('Error writing hand history', error));
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.currentFileBytes === null) {
+      await fs.mkdir(this.DIRECTORY, { recursive: true });
+      this.currentFileBytes = await fs.stat(this.currentFilePath())
+        .then(stats => stats.size)
+        .catch(() => 0);
+    }
+
+    const lineBytes = Buffer.byteLength(line);
+    if (this.currentFileBytes > 0 && this.currentFileBytes + lineBytes > this.MAX_FILE_BYTES) {
+      await this.rotate();
+    }
+
+    await fs.appendFile(this.currentFilePath(), line);
+    this.currentFileBytes += lineBytes;
+  }
+
+  // hand-history.jsonl becomes hand-history.1.jsonl, .1 becomes .2 and so on, dropping the oldest
+  private async rotate(): Promise<void> {
+    const rotatedPath = (index: number) => path.join(this.DIRECTORY, `${this.FILE_NAME}.${index}.jsonl`);
+
+    await fs.rm(rotatedPath(this.MAX_ROTATED_FILES), { force: true });
+    for (let index = this.MAX_ROTATED_FILES - 1; index >= 1; index--) {
+      await fs.rename(rotatedPath(index), rotatedPath(index + 1)).catch(() => {});
+    }
+    await fs.rename(this.currentFilePath(), rotatedPath(1));
+    this.currentFileBytes = 0;
+  }
+}
@@ -0,0 +1,203 @@
+import { CardProps } from './Card';
+import { Position } from './GameState';
+import { HandEvaluator } from './HandEvaluator';
+import { HandReconstructor, PlayerAction } from './HandReconstructor';
+import { StartingHands } from './StartingHands';
+
+export interface RangeTendencies {
+  vpip: number;
+  pfr: number;
+  aggressionFactor: number;
+}
+
+export interface RangeCombo {
+  cards: [CardProps, CardProps];
+  weight: number; // Relative probability, the weights of a range add up to 1
+}
+
+/**
+ * What an opponent may be holding, as a weight for each of the 1326 two-card combinations.
+ *
+ * The range starts from the share of hands the opponent voluntarily plays, widened or narrowed by
+ * position, and every action it takes multiplies each combo by how likely that action is with it
+ * (a Bayesian update). After the flop a combo's strength is the share of all other combos its best
+ * hand beats on that board, so draws only get the weight of the bluffs.
+ */
+export class HandRange {
+  private static readonly SUITS = ['clubs', 'spades', 'hearts', 'diamonds'];
+  // How much wider than its overall VPIP a player plays from each seat
+  private static readonly POSITION_WIDTH: { [position in Position]: number } = {
+    UTG: 0.6, MP: 0.75, HJ: 0.9, CO: 1.1, BTN: 1.4, SB: 1.1, BB: 1.3
+  };
+  private static readonly EDGE_SOFTNESS = 0.03; // How gradually a range fades out around its edge
+  private static readonly OUTSIDE_WEIGHT = 0.02; // Players sometimes show up with anything
+  private static combos: [CardProps, CardProps][] | null = null;
+  private static percentiles: Float64Array | null = null;
+  private static strengthCache: { board: string, strengths: Float64Array } | null = null;
+
+  private constructor(private readonly weights: Float64Array) {}
+
+  public static initial(position: Position, tendencies: RangeTendencies): HandRange {
+    const width = Math.min(1, Math.max(0.05, tendencies.vpip * this.POSITION_WIDTH[position]));
+    const percentiles = this.comboPercentiles();
+    const weights = new Float64Array(percentiles.length);
+    percentiles.forEach((percentile, index) => {
+      weights[index] = this.OUTSIDE_WEIGHT + (1 - this.OUTSIDE_WEIGHT) * this.inside(percentile, width);
+    });
+    return new HandRange(weights).normalize();
+  }
+
+  /**
+   * Bayesian update for one action. `board` is the community cards on the street it was taken.
+   */
+  public update(action: PlayerAction, board: CardProps[], tendencies: RangeTendencies): void {
+    if (action.action === 'post_blind' || action.action === 'fold') return;
+
+    const strengths = board.length >= 3 ? HandRange.boardStrengths(board) : null;
+    const percentiles = HandRange.comboPercentiles();
+    for (let index = 0; index < this.weights.length; index++) {
+      if (this.weights[index] === 0) continue;
+      this.weights[index] *= strengths
+        ? HandRange.postFlopLikelihood(action, strengths[index], tendencies)
+        : HandRange.preFlopLikelihood(action, percentiles[index], tendencies);
+    }
+    this.removeBlocked(board);
+  }
+
+  /**
+   * Drops the combos that share a card with `cards`, e.g. our hole cards and the board.
+   */
+  public removeBlocked(cards: CardProps[]): HandRange {
+    const blocked = new Set(cards.map(card => HandRange.key(card)));
+    HandRange.allCombos().forEach(([first, second], index) => {
+      if (blocked.has(HandRange.key(first)) || blocked.has(HandRange.key(second))) this.weights[index] = 0;
+    });
+    return this.normalize();
+  }
+
+  public clone(): HandRange {
+    return new HandRange(new Float64Array(this.weights));
+  }
+
+  public combos(): RangeCombo[] {
+    const all = HandRange.allCombos();
+    const combos: RangeCombo[] = [];
+    this.weights.forEach((weight, index) => {
+      if (weight > 0) combos.push({ cards: all[index], weight });
+    });
+    return combos;
+  }
+
+  /**
+   * The size of the range in combos held at full weight, e.g. about 80 for "the top 6% of hands".
+   */
+  public comboCount(): number {
+    const max = this.weights.reduce((highest, weight) => Math.max(highest, weight), 0);
+    return max > 0 ? this.weights.reduce((sum, weight) => sum + weight, 0) / max : 0;
+  }
+
+  /**
+   * The most likely starting hands, e.g. ["AA", "KK", "AKs"], for logging.
+   */
+  public topClasses(count: number): string[] {
+    // Average weight of the combos left in each class, so blocked combos don't count against it
+    const byClass = new Map<string, { total: number, combos: number }>();
+    this.combos().forEach(combo => {
+      const handClass = StartingHands.handClass(combo.cards);
+      const entry = byClass.get(handClass) || { total: 0, combos: 0 };
+      entry.total += combo.weight;
+      entry.combos++;
+      byClass.set(handClass, entry);
+    });
+    return Array.from(byClass.entries())
+      .sort((a, b) => b[1].total / b[1].combos - a[1].total / a[1].combos)
+      .slice(0, count)
+      .map(([handClass]) => handClass);
+  }
+
+  // Before the flop players raise their best hands, call with the rest of their range and check in
+  // the big blind with whatever they didn't raise
+  private static preFlopLikelihood(action: PlayerAction, percentile: number, tendencies: RangeTendencies): number {
+    const raiseRange = this.inside(percentile, tendencies.pfr);
+    if (HandReconstructor.isAggressive(action)) {
+      return this.OUTSIDE_WEIGHT + (1 - this.OUTSIDE_WEIGHT) * raiseRange;
+    }
+    if (action.action === 'check') return 1 - 0.6 * raiseRange;
+    // Calling, or all-in for no more than a call
+    return this.OUTSIDE_WEIGHT + (1 - this.OUTSIDE_WEIGHT) * this.inside(percentile, tendencies.vpip) * (1 - 0.5 * raiseRange);
+  }
+
+  // After the flop bets come from strong hands plus a share of bluffs that grows with the player's
+  // aggression, calls from the middle and the top of the range, and checks mostly from weak hands
+  private static postFlopLikelihood(action: PlayerAction, strength: number, tendencies: RangeTendencies): number {
+    const bluffShare = Math.min(0.35, Math.max(0.05, 0.05 + 0.05 * tendencies.aggressionFactor));
+    if (HandReconstructor.isAggressive(action)) {
+      return bluffShare + (1 - bluffShare) * strength * strength;
+    }
+    if (action.action === 'check') return 0.25 + 0.75 * (1 - strength);
+    return 0.1 + 0.9 * Math.min(1, strength / 0.6) * (1 - 0.5 * Math.pow(strength, 3));
+  }
+
+  // Close to 1 for hands inside the top `width` of all hands, falling off smoothly beyond it
+  private static inside(percentile: number, width: number): number {
+    return 1 / (1 + Math.exp((percentile - width) / this.EDGE_SOFTNESS));
+  }
+
+  // Share of the other combos each combo beats on this board, ties counting half
+  private static boardStrengths(board: CardProps[]): Float64Array {
+    const boardKey = board.map(card => this.key(card)).join(' ');
+    if (this.strengthCache?.board === boardKey) return this.strengthCache.strengths;
+
+    const blocked = new Set(board.map(card => this.key(card)));
+    const all = this.allCombos();
+    const ranked = all
+      .map((cards, index) => ({ index, cards }))
+      .filter(({ cards }) => !blocked.has(this.key(cards[0])) && !blocked.has(this.key(cards[1])))
+      .map(({ index, cards }) => ({ index, hand: HandEvaluator.evaluateHand([...cards, ...board]) }))
+      .sort((a, b) => HandEvaluator.compareHands(a.hand, b.hand));
+
+    const strengths = new Float64Array(all.length);
+    let start = 0;
+    while (start < ranked.length) {
+      let end = start;
+      while (end + 1 < ranked.length && HandEvaluator.compareHands(ranked[end + 1].hand, ranked[start].hand) === 0) end++;
+      const strength = ((start + end) / 2) / Math.max(1, ranked.length - 1);
+      for (let i = start; i <= end; i++) strengths[ranked[i].index] = strength;
+      start = end + 1;
+    }
+
+    this.strengthCache = { board: boardKey, strengths };
+    return strengths;
+  }
+
+  public static allCombos(): [CardProps, CardProps][] {
+    if (!this.combos) {
+      const deck: CardProps[] = [];
+      this.SUITS.forEach(suit => HandEvaluator.RANKS.forEach(rank => deck.push({ rank, suit })));
+      this.combos = [];
+      for (let i = 0; i < deck.length; i++) {
+        for (let j = i + 1; j < deck.length; j++) this.combos.push([deck[i], deck[j]]);
+      }
+    }
+    return this.combos;
+  }
+
+  private static comboPercentiles(): Float64Array {
+    if (!this.percentiles) {
+      this.percentiles = Float64Array.from(this.allCombos(), cards => StartingHands.percentile(StartingHands.handClass(cards)));
+    }
+    return this.percentiles;
+  }
+
+  private static key(card: CardProps): string {
+    return `${card.rank}${card.suit}`;
+  }
+
+  private normalize(): HandRange {
+    const total = this.weights.reduce((sum, weight) => sum + weight, 0);
+    if (total > 0) {
+      for (let i = 0; i < this.weights.length; i++) this.weights[i] /= total;
+    }
+    return this;
+  }
+}
@@ -0,0 +1,344 @@
+import { GameState } from './GameState';
+import { Street } from './OpponentStatistics';
+
+export type ActionType = 'post_blind' | 'check' | 'bet' | 'call' | 'raise' | 'all_in' | 'fold';
+
+export interface PlayerAction {
+  playerId: number;
+  gameId: string;
+  round: number;
+  betIndex: number; // bet_index of the snapshot the action was reconstructed from
+  street: Street;
+  action: ActionType;
+  amount: number; // Chips put in with this action
+  betAmount: number; // The player's total bet on this street after the action
+  toCall: number; // What the player had to put in to call before acting
+}
+
+interface SeatState {
+  name: string;
+  status: 'active' | 'folded' | 'out';
+  stack: number;
+  bet: number; // Chips put in on the current street
+}
+
+/**
+ * Rebuilds the full action log of a hand from the snapshots Lean Poker sends us. We only see the table
+ * when it is our turn, so everything between two snapshots is replayed in seat order from the changes
+ * in each player's status, bet and stack. Bets are taken to be per street, like the live dealer does.
+ */
+export class HandReconstructor {
+  private static readonly STREETS: Street[] = ['pre-flop', 'flop', 'turn', 'river'];
+
+  private gameId?: string;
+  private round = -1;
+  private betIndex = -1;
+  private dealer = 0;
+  private street: Street = 'pre-flop';
+  private seats: SeatState[] = [];
+  private currentBuyIn = 0;
+  private nextToAct = 0;
+  private streetOpener = 0; // First seat to act on the current street
+  private lastAggressor: number | null = null; // Last seat to bet or raise on the current street
+  private ownActionPending = false; // Our reply to the last snapshot hasn't been seen yet
+  private ownBet: number | null = null; // What we answered to the last snapshot, if we know it
+  private ownMinimumRaise = 0;
+  private finished = false;
+  private actions: PlayerAction[] = [];
+
+  public isSameHand(gameState: GameState): boolean {
+    return this.gameId === gameState.gameId && this.round === gameState.round;
+  }
+
+  public handActions(): PlayerAction[] {
+    return this.actions;
+  }
+
+  /**
+   * Takes the snapshot of a bet request and returns the actions that happened since the previous one.
+   */
+  public observe(gameState: GameState): PlayerAction[] {
+    if (!this.isSameHand(gameState)) {
+      this.startHand(gameState);
+    } else if (this.finished || gameState.betIndex <= this.betIndex) {
+      return []; // Stale or repeated payload
+    }
+
+    const newActions = this.replayUntil(gameState, gameState.inAction);
+    this.betIndex = gameState.betIndex;
+    this.nextToAct = gameState.inAction;
+    this.ownActionPending = true;
+    this.ownBet = null;
+    this.ownMinimumRaise = gameState.minimumRaise;
+    return newActions;
+  }
+
+  /**
+   * Remembers the bet we answered the last snapshot with, so that our own action doesn't have to be
+   * guessed from the next payload. Only the first answer to a snapshot counts.
+   */
+  public recordOwnBet(gameState: GameState, bet: number): void {
+    if (this.isSameHand(gameState) && this.betIndex === gameState.betIndex &&
+        this.ownActionPending && this.ownBet === null) {
+      this.ownBet = bet;
+    }
+  }
+
+  /**
+   * Closes the hand with the showdown payload. Stacks in it already include the winnings, so only
+   * statuses and bets are used to fill in what happened after our last action.
+   */
+  public observeShowdown(gameState: GameState): PlayerAction[] {
+    if (!this.isSameHand(gameState)) {
+      // We never got to act, e.g. because we were all-in from the blinds
+      this.startHand(gameState, 'pre-flop');
+    } else if (this.finished) {
+      return [];
+    }
+
+    const newActions = this.replayUntil(gameState, null);
+    this.finished = true;
+    return newActions;
+  }
+
+  public static isAggressive(action: PlayerAction): boolean {
+    return action.action === 'bet' || action.action === 'raise' ||
+      (action.action === 'all_in' && action.amount > action.toCall);
+  }
+
+  // Chips put in by choice, as opposed to blinds
+  public static isVoluntary(action: PlayerAction): boolean {
+    return action.action === 'call' || action.action === 'all_in' || this.isAggressive(action);
+  }
+
+  private startHand(gameState: GameState, street: Street = gameState.pokerRound() as Street): void {
+    this.gameId = gameState.gameId;
+    this.round = gameState.round;
+    this.betIndex = -1;
+    this.dealer = gameState.dealer;
+    this.finished = false;
+    this.ownActionPending = false;
+    this.actions = [];
+    this.currentBuyIn = 0;
+    this.lastAggressor = null;
+    this.ownBet = null;
+    this.street = street;
+
+    // Stacks as they were at the start of the current street
+    this.seats = gameState.players.map(player => ({
+      name: player.name,
+      status: player.status === 'out' ? 'out' : 'active',
+      stack: player.stack + player.bet,
+      bet: 0
+    }));
+
+    if (this.street !== 'pre-flop') {
+      // We missed the start of the hand, so earlier streets can't be rebuilt
+      this.streetOpener = this.nextActiveSeat(this.dealer);
+      this.nextToAct = this.streetOpener;
+      return;
+    }
+
+    // Heads-up the dealer posts the small blind
+    const livePlayers = this.seats.filter(seat => seat.status !== 'out').length;
+    const smallBlindSeat = livePlayers === 2 ? this.dealer : this.nextActiveSeat(this.dealer);
+    const bigBlindSeat = this.nextActiveSeat(smallBlindSeat);
+    this.postBlind(gameState, smallBlindSeat, gameState.smallBlind);
+    this.postBlind(gameState, bigBlindSeat, gameState.smallBlind * 2);
+
+    this.streetOpener = this.nextActiveSeat(bigBlindSeat);
+    this.nextToAct = this.streetOpener;
+  }
+
+  private postBlind(gameState: GameState, seatIndex: number, blind: number): void {
+    const seat = this.seats[seatIndex];
+    const posted = Math.min(blind, seat.stack, gameState.players[seatIndex].bet || blind);
+    seat.stack -= posted;
+    seat.bet = posted;
+    this.currentBuyIn = Math.max(this.currentBuyIn, posted);
+    this.record(gameState, seatIndex, 'post_blind', posted, 0);
+  }
+
+  private replayUntil(gameState: GameState, endSeat: number | null): PlayerAction[] {
+    const firstNewAction = this.actions.length;
+    const isShowdown = endSeat === null;
+    const targetStreet: Street = isShowdown ? 'river' : gameState.pokerRound() as Street;
+
+    if (this.streetIndex(targetStreet) > this.streetIndex(this.street)) {
+      const skippedStreets = this.streetIndex(targetStreet) - this.streetIndex(this.street) > 1;
+      this.closeStreet(gameState, isShowdown, skippedStreets);
+      this.startStreet(gameState, targetStreet, isShowdown);
+    }
+
+    this.replayStreet(gameState, endSeat);
+    return this.actions.slice(firstNewAction);
+  }
+
+  /**
+   * Everyone left to act on the old street matched the last bet, folded or went all-in. When whole
+   * streets went by without a snapshot, chips beyond a call can't be placed and are left out.
+   */
+  private closeStreet(gameState: GameState, isShowdown: boolean, skippedStreets: boolean): void {
+    this.walk(gameState, seatIndex => {
+      const seat = this.seats[seatIndex];
+      const now = gameState.players[seatIndex];
+      const toCall = Math.max(0, this.currentBuyIn - seat.bet);
+
+      // Chips that went in before the new street started, only known while stacks exclude winnings
+      const paid = isShowdown
+        ? (now.status === 'folded' ? 0 : toCall)
+        : Math.max(0, seat.stack - now.stack - now.bet);
+      const amount = skippedStreets ? Math.min(paid, toCall) : paid;
+
+      if (now.status === 'folded' && paid < toCall) {
+        this.fold(gameState, seatIndex, toCall);
+      } else if (amount === 0) {
+        this.record(gameState, seatIndex, 'check', 0, toCall);
+      } else {
+        this.putIn(gameState, seatIndex, amount, toCall);
+      }
+    });
+  }
+
+  private startStreet(gameState: GameState, street: Street, isShowdown: boolean): void {
+    this.street = street;
+    this.currentBuyIn = 0;
+    this.lastAggressor = null;
+    this.ownActionPending = false;
+
+    this.seats.forEach((seat, seatIndex) => {
+      const now = gameState.players[seatIndex];
+      if (!isShowdown && seat.status !== 'out') seat.stack = now.stack + now.bet;
+      seat.bet = 0;
+    });
+
+    this.streetOpener = this.nextActiveSeat(this.dealer);
+    this.nextToAct = this.streetOpener;
+  }
+
+  // Each player still in acts at most once between two of our turns on the same street
+  private replayStreet(gameState: GameState, endSeat: number | null): void {
+    this.walk(gameState, seatIndex => {
+      const seat = this.seats[seatIndex];
+      const now = gameState.players[seatIndex];
+      const toCall = Math.max(0, this.currentBuyIn - seat.bet);
+
+      if (now.status === 'folded') {
+        this.fold(gameState, seatIndex, toCall);
+        return;
+      }
+
+      const added = Math.max(0, now.bet - seat.bet);
+      if (added === 0) {
+        this.record(gameState, seatIndex, 'check', 0, toCall);
+      } else {
+        this.putIn(gameState, seatIndex, added, toCall);
+      }
+    }, endSeat);
+  }
+
+  /**
+   * Visits the players who can still act, in seat order from nextToAct. Without an end seat the walk
+   * stops where the betting closes: at the last aggressor, or back at the street's first player.
+   */
+  private walk(gameState: GameState, visit: (seatIndex: number) => void, endSeat: number | null = null): void {
+    const seatCount = this.seats.length;
+    const startsWithOwnAction = this.ownActionPending;
+
+    for (let step = 0; step < seatCount; step++) {
+      const seatIndex = (this.nextToAct + step) % seatCount;
+
+      const seat = this.seats[seatIndex];
+      const ownTurn = step === 0 && startsWithOwnAction;
+
+      // Our own seat comes first when our reply to the previous snapshot still has to be replayed. A
+      // reply we know was made whatever the table looks like now, so it goes in before any exit
+      if (ownTurn && this.ownBet !== null) {
+        if (seat.status === 'active' && seat.stack > 0) this.applyOwnBet(gameState, seatIndex, this.ownBet);
+        continue;
+      }
+      if (!ownTurn) {
+        if (endSeat !== null && seatIndex === endSeat) break;
+        if (endSeat === null && seatIndex === this.lastAggressor) break;
+        if (endSeat === null && step > 0 && this.lastAggressor === null && seatIndex === this.streetOpener) break;
+      }
+
+      // Betting is over once everyone else has folded, or no one is left to call an all-in
+      const contenders = this.seats.filter(other => other.status === 'active');
+      const canAct = contenders.filter(other => other.stack > 0);
+      if (contenders.length < 2 || canAct.length === 0) break;
+      if (canAct.length === 1 && canAct[0].bet >= this.currentBuyIn) break;
+
+      if (seat.status !== 'active' || seat.stack === 0) continue;
+      visit(seatIndex);
+    }
+
+    this.ownActionPending = false;
+    this.ownBet = null;
+  }
+
+  // Lean Poker treats a bet below the call as a fold and one below a minimum raise as a call
+  private applyOwnBet(gameState: GameState, seatIndex: number, bet: number): void {
+    const seat = this.seats[seatIndex];
+    const toCall = Math.max(0, this.currentBuyIn - seat.bet);
+
+    if (bet >= seat.stack) {
+      this.putIn(gameState, seatIndex, seat.stack, toCall);
+    } else if (bet < toCall) {
+      this.fold(gameState, seatIndex, toCall);
+    } else if (bet < toCall + this.ownMinimumRaise) {
+      if (toCall === 0) this.record(gameState, seatIndex, 'check', 0, toCall);
+      else this.putIn(gameState, seatIndex, toCall, toCall);
+    } else {
+      this.putIn(gameState, seatIndex, bet, toCall);
+    }
+  }
+
+  private putIn(gameState: GameState, seatIndex: number, chips: number, toCall: number): void {
+    const seat = this.seats[seatIndex];
+    const amount = Math.min(chips, seat.stack);
+    const action: ActionType = amount === seat.stack ? 'all_in'
+      : amount <= toCall ? 'call'
+      : this.currentBuyIn === 0 ? 'bet'
+      : 'raise';
+
+    seat.stack -= amount;
+    seat.bet += amount;
+    if (seat.bet > this.currentBuyIn) {
+      this.currentBuyIn = seat.bet;
+      this.lastAggressor = seatIndex;
+    }
+    this.record(gameState, seatIndex, action, amount, toCall);
+  }
+
+  private fold(gameState: GameState, seatIndex: number, toCall: number): void {
+    this.seats[seatIndex].status = 'folded';
+    this.record(gameState, seatIndex, 'fold', 0, toCall);
+  }
+
+  private record(gameState: GameState, seatIndex: number, action: ActionType, amount: number, toCall: number): void {
+    this.actions.push({
+      playerId: seatIndex,
+      gameId: gameState.gameId,
+      round: gameState.round,
+      betIndex: gameState.betIndex,
+      street: this.street,
+      action,
+      amount,
+      betAmount: this.seats[seatIndex].bet,
+      toCall
+    });
+  }
+
+  private nextActiveSeat(from: number): number {
+    for (let offset = 1; offset <= this.seats.length; offset++) {
+      const seatIndex = (from + offset) % this.seats.length;
+      if (this.seats[seatIndex].status === 'active') return seatIndex;
+    }
+    return from;
+  }
+
+  private streetIndex(street: Street): number {
+    return HandReconstructor.STREETS.indexOf(street);
+  }
+}
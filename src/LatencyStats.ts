@@ -0,0 +1,53 @@
+export interface LatencySummary {
+  samples: number;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+  max: number | null;
+  deadlineHits: number; // Bet requests that ran out of their response budget
+}
+
+/**
+ * Response times of the latest bet requests, in milliseconds.
+ */
+export class LatencyStats {
+  private static instance: LatencyStats;
+  private readonly MAX_SAMPLES = 1000;
+  private samples: number[] = [];
+  private deadlineHits = 0;
+
+  private constructor() {}
+
+  public static getInstance(): LatencyStats {
+    if (!LatencyStats.instance) {
+      LatencyStats.instance = new LatencyStats();
+    }
+    return LatencyStats.instance;
+  }
+
+  public record(durationMs: number): void {
+    this.samples.push(durationMs);
+    if (this.samples.length > this.MAX_SAMPLES) this.samples.shift();
+  }
+
+  public recordDeadlineHit(): void {
+    this.deadlineHits++;
+  }
+
+  public summary(): LatencySummary {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    // Nearest-rank percentile
+    const percentile = (p: number) => sorted.length > 0
+      ? sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)]
+      : null;
+
+    return {
+      samples: sorted.length,
+      p50: percentile(0.5),
+      p90: percentile(0.9),
+      p99: percentile(0.99),
+      max: sorted.length > 0 ? sorted[sorted.length - 1] : null,
+      deadlineHits: this.deadlineHits
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { Config } from './Config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = { [key: string]: unknown };
+
+/**
+ * Writes one JSON object per line: time, level, component and message plus any extra fields.
+ * Entries below the `log_level` setting (LOG_LEVEL, "info" by default) are dropped.
+ */
+export class Logger {
+  private static readonly LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+  private static threshold: number | null = null;
+
+  constructor(private readonly component: string) {}
+
+  public debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  public error(message: string, error?: unknown, fields?: LogFields): void {
+    this.write('error', message, { ...fields, ...(error !== undefined ? { error: Logger.serializeError(error) } : {}) });
+  }
+
+  public isEnabled(level: LogLevel): boolean {
+    return Logger.LEVELS.indexOf(level) >= Logger.minimumLevel();
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) return;
+
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      msg: message,
+      ...fields
+    });
+    // Going through console keeps the CLI tools able to silence the bot
+    if (level === 'error' || level === 'warn') console.error(line);
+    else console.log(line);
+  }
+
+  private static minimumLevel(): number {
+    if (this.threshold === null) {
+      const configured = (Config.get('log_level') || 'info').toLowerCase() as LogLevel;
+      const index = this.LEVELS.indexOf(configured);
+      this.threshold = index === -1 ? this.LEVELS.indexOf('info') : index;
+    }
+    return this.threshold;
+  }
+
+  private static serializeError(error: unknown): unknown {
+    if (error instanceof Error) {
+      return { name: error.name, message: error.message, stack: error.stack };
+    }
+    return error;
+  }
+}
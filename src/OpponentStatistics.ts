@@ -0,0 +1,210 @@
+import { HandReconstructor, PlayerAction } from './HandReconstructor';
+
+export type Street = 'pre-flop' | 'flop' | 'turn' | 'river';
+export type StatName = 'vpip' | 'pfr' | 'threeBet' | 'aggressionFactor' | 'wentToShowdown' | 'foldToContinuationBet';
+
+export interface StatCounter {
+  hits: number;
+  opportunities: number;
+}
+
+export interface AggressionCounter {
+  aggressive: number; // Bets and raises
+  passive: number; // Calls
+}
+
+export interface HudCounters {
+  vpip: StatCounter; // Voluntarily put chips in pre-flop
+  pfr: StatCounter; // Raised pre-flop
+  threeBet: StatCounter; // Re-raised when facing a single pre-flop raise
+  wentToShowdown: StatCounter; // Reached showdown after seeing the flop
+  foldToContinuationBet: { [street in Street]: StatCounter }; // Folded to a bet from the previous street's aggressor
+  aggression: { [street in Street]: AggressionCounter };
+}
+
+export interface StatValue {
+  value: number;
+  sampleSize: number;
+}
+
+export interface HandSummary {
+  participants: number[]; // Ids of the players dealt into the hand
+  actions: PlayerAction[]; // Every tracked action in the hand, in the order it happened
+  showdownPlayers: number[]; // Ids of the players who reached showdown, empty when the pot went uncontested
+}
+
+export class OpponentStatistics {
+  public static readonly STREETS: Street[] = ['pre-flop', 'flop', 'turn', 'river'];
+
+  // Hands of data it takes before a player's own numbers outweigh the population average
+  private static readonly PRIOR_WEIGHT = 10;
+
+  // Typical values for a table of bots, used until we have seen enough hands from anyone
+  private static readonly DEFAULTS: { [stat in StatName]: number } = {
+    vpip: 0.3,
+    pfr: 0.15,
+    threeBet: 0.06,
+    aggressionFactor: 1.5,
+    wentToShowdown: 0.3,
+    foldToContinuationBet: 0.45
+  };
+
+  public static emptyCounters(): HudCounters {
+    const perStreet = <T>(create: () => T) => ({
+      'pre-flop': create(),
+      flop: create(),
+      turn: create(),
+      river: create()
+    });
+
+    return {
+      vpip: { hits: 0, opportunities: 0 },
+      pfr: { hits: 0, opportunities: 0 },
+      threeBet: { hits: 0, opportunities: 0 },
+      wentToShowdown: { hits: 0, opportunities: 0 },
+      foldToContinuationBet: perStreet(() => ({ hits: 0, opportunities: 0 })),
+      aggression: perStreet(() => ({ aggressive: 0, passive: 0 }))
+    };
+  }
+
+  /**
+   * Adds one finished hand to a player's counters.
+   */
+  public static recordHand(counters: HudCounters, playerId: number, hand: HandSummary): void {
+    if (!hand.participants.includes(playerId)) return;
+
+    const own = hand.actions.filter(a => a.playerId === playerId);
+    const preFlop = own.filter(a => a.street === 'pre-flop');
+
+    counters.vpip.opportunities++;
+    if (preFlop.some(a => HandReconstructor.isVoluntary(a))) counters.vpip.hits++;
+
+    counters.pfr.opportunities++;
+    if (preFlop.some(a => HandReconstructor.isAggressive(a))) counters.pfr.hits++;
+
+    this.recordThreeBet(counters, playerId, hand.actions);
+
+    own.forEach(a => {
+      const aggression = counters.aggression[a.street as Street];
+      if (!aggression) return;
+      if (HandReconstructor.isAggressive(a)) aggression.aggressive++;
+      else if (HandReconstructor.isVoluntary(a)) aggression.passive++;
+    });
+
+    const foldedPreFlop = preFlop.some(a => a.action === 'fold');
+    const sawFlop = !foldedPreFlop && (
+      hand.actions.some(a => a.street !== 'pre-flop') || hand.showdownPlayers.length > 0
+    );
+    if (sawFlop) {
+      counters.wentToShowdown.opportunities++;
+      if (hand.showdownPlayers.includes(playerId)) counters.wentToShowdown.hits++;
+    }
+
+    this.recordFoldToContinuationBets(counters, playerId, hand.actions);
+  }
+
+  /**
+   * Estimates a stat for one player, shrinking small samples towards the population average.
+   */
+  public static estimate(stat: StatName, player: HudCounters, population: HudCounters, street?: Street): StatValue {
+    const defaultValue = this.DEFAULTS[stat];
+
+    if (stat === 'aggressionFactor') {
+      const own = this.aggressionTotals(player, street);
+      const pooled = this.aggressionTotals(population, street);
+      const populationValue = this.shrinkRatio(pooled.aggressive, pooled.passive, defaultValue);
+      return {
+        value: this.shrinkRatio(own.aggressive, own.passive, populationValue),
+        sampleSize: own.aggressive + own.passive
+      };
+    }
+
+    const own = this.counterFor(stat, player, street);
+    const pooled = this.counterFor(stat, population, street);
+    const populationValue = this.shrinkFrequency(pooled, defaultValue);
+    return {
+      value: this.shrinkFrequency(own, populationValue),
+      sampleSize: own.opportunities
+    };
+  }
+
+  public static mergeInto(target: HudCounters, source: HudCounters, weight: number = 1): void {
+    const addCounter = (to: StatCounter, from: StatCounter) => {
+      to.hits += from.hits * weight;
+      to.opportunities += from.opportunities * weight;
+    };
+
+    addCounter(target.vpip, source.vpip);
+    addCounter(target.pfr, source.pfr);
+    addCounter(target.threeBet, source.threeBet);
+    addCounter(target.wentToShowdown, source.wentToShowdown);
+    this.STREETS.forEach(street => {
+      addCounter(target.foldToContinuationBet[street], source.foldToContinuationBet[street]);
+      target.aggression[street].aggressive += source.aggression[street].aggressive * weight;
+      target.aggression[street].passive += source.aggression[street].passive * weight;
+    });
+  }
+
+  // The first pre-flop decision a player makes after exactly one raise is a 3-bet opportunity
+  private static recordThreeBet(counters: HudCounters, playerId: number, actions: PlayerAction[]): void {
+    let raises = 0;
+    for (const action of actions) {
+      if (action.street !== 'pre-flop') break;
+      if (action.playerId === playerId && action.action !== 'post_blind' && raises === 1) {
+        counters.threeBet.opportunities++;
+        if (HandReconstructor.isAggressive(action)) counters.threeBet.hits++;
+        return;
+      }
+      if (HandReconstructor.isAggressive(action)) raises++;
+    }
+  }
+
+  // A continuation bet is the first bet on a street by whoever made the last raise on the street before
+  private static recordFoldToContinuationBets(counters: HudCounters, playerId: number, actions: PlayerAction[]): void {
+    for (let i = 1; i < this.STREETS.length; i++) {
+      const previousRaises = actions.filter(a => a.street === this.STREETS[i - 1] && HandReconstructor.isAggressive(a));
+      if (previousRaises.length === 0) continue;
+
+      const aggressor = previousRaises[previousRaises.length - 1].playerId;
+      if (aggressor === playerId) continue;
+
+      const streetActions = actions.filter(a => a.street === this.STREETS[i]);
+      const betIndex = streetActions.findIndex(a => HandReconstructor.isAggressive(a));
+      if (betIndex === -1 || streetActions[betIndex].playerId !== aggressor) continue;
+
+      const response = streetActions.slice(betIndex + 1).find(a => a.playerId === playerId);
+      if (!response) continue;
+
+      const counter = counters.foldToContinuationBet[this.STREETS[i]];
+      counter.opportunities++;
+      if (response.action === 'fold') counter.hits++;
+    }
+  }
+
+  private static counterFor(stat: StatName, counters: HudCounters, street?: Street): StatCounter {
+    if (stat === 'foldToContinuationBet') {
+      const streets = street ? [street] : this.STREETS;
+      return streets.reduce((total, s) => ({
+        hits: total.hits + counters.foldToContinuationBet[s].hits,
+        opportunities: total.opportunities + counters.foldToContinuationBet[s].opportunities
+      }), { hits: 0, opportunities: 0 });
+    }
+    return counters[stat as 'vpip' | 'pfr' | 'threeBet' | 'wentToShowdown'];
+  }
+
+  private static aggressionTotals(counters: HudCounters, street?: Street): AggressionCounter {
+    const streets = street ? [street] : this.STREETS;
+    return streets.reduce((total, s) => ({
+      aggressive: total.aggressive + counters.aggression[s].aggressive,
+      passive: total.passive + counters.aggression[s].passive
+    }), { aggressive: 0, passive: 0 });
+  }
+
+  private static shrinkFrequency(counter: StatCounter, prior: number): number {
+    return (counter.hits + prior * this.PRIOR_WEIGHT) / (counter.opportunities + this.PRIOR_WEIGHT);
+  }
+
+  private static shrinkRatio(aggressive: number, passive: number, prior: number): number {
+    return (aggressive + prior * this.PRIOR_WEIGHT) / (passive + this.PRIOR_WEIGHT);
+  }
+}
@@ -1,25 +1,83 @@
 import { Player } from './Player';
 import { GameState } from './GameState';
+import { CardProps } from './Card';
+import { HandEvaluator, MadeHandClass } from './HandEvaluator';
+import { HudCounters, OpponentStatistics, StatName, StatValue, Street } from './OpponentStatistics';
+import { ProfileStore } from './ProfileStore';
+import { ActionType, HandReconstructor, PlayerAction } from './HandReconstructor';
+import { GameSession, GameSessions } from './GameSession';
+import { HandRange, RangeTendencies } from './HandRange';
+import { Logger } from './Logger';
 
-export interface PlayerAction {
+const logger = new Logger('PlayerTracker');
+
+export interface ShowdownRecord {
   gameId: string;
   round: number;
-  betIndex: number;
-  action: 'fold' | 'call' | 'raise';
-  betAmount: number;
+  holeCards: CardProps[];
+  handClass: MadeHandClass;
+  handStrength: number;
+  actions: PlayerAction[]; // What the player did earlier in the hand
+  bluffed: boolean; // Last bet or raised after the flop with air on the board of that street
+}
+
+export interface ShowdownActionStats {
+  count: number;
+  totalStrength: number;
+  handClasses: { [handClass in MadeHandClass]?: number };
+}
+
+// Everything we learn about an opponent while it runs one version of its bot
+export interface ProfileData {
+  hud: HudCounters;
+  aggressiveShowdowns: number; // Showdowns in which the player's last bet or raise came after the flop
+  bluffs: number;
+  showdownStrengthByAction: { [streetAndAction: string]: ShowdownActionStats }; // Keyed by e.g. "river raise"
+  handsSeen: number;
+  lastSeen: string;
+}
+
+// Long-term knowledge about an opponent, persisted across restarts
+export interface OpponentProfile {
+  name: string;
+  currentVersion: string;
+  versions: { [version: string]: ProfileData };
 }
 
 export interface PlayerStats {
-  id: number;
+  id: number; // Seat of the player in the game we saw it in most recently
+  name: string;
+  version: string;
+  actions: PlayerAction[]; // Recent actions, capped at MAX_RECENT_ACTIONS
+  aggressivenessScore: number;
+  showdowns: ShowdownRecord[]; // Recent showdowns, capped at MAX_RECENT_SHOWDOWNS
+  profile: OpponentProfile;
+}
+
+export interface OpponentSummary {
   name: string;
-  actions: PlayerAction[];
+  version: string;
+  seat: number;
+  handsSeen: number; // Weighted across versions, like the stats
   aggressivenessScore: number;
+  stats: { [stat in StatName]: StatValue };
+  bluffFrequency: { frequency: number, sampleSize: number };
+  knownVersions: string[];
 }
 
 export class PlayerTracker {
   private static instance: PlayerTracker;
-  private playerStats: Map<number, PlayerStats> = new Map();
-  private lastGameState?: {gameId: string, round: number, betIndex: number, playerBets: Map<number, number>};
+  private readonly MAX_RECENT_ACTIONS = 200;
+  private readonly MAX_RECENT_SHOWDOWNS = 50;
+  private readonly OLD_VERSION_WEIGHT = 0.25; // Opponents change strategy between versions
+  private readonly FLUSH_INTERVAL = 60000; // 1 minute
+  private static readonly BOARD_SIZE: { [street in Street]: number } = { 'pre-flop': 0, flop: 3, turn: 4, river: 5 };
+  private playerStats: Map<string, PlayerStats> = new Map();
+  private profiles: Map<string, OpponentProfile> = new Map();
+  private store?: ProfileStore;
+  private sessions: GameSessions = GameSessions.getInstance(); // Hand state per game, the stats above are shared
+  private ourName: string | null = null;
+  private population: HudCounters | null = null; // Pooled counters of every opponent, rebuilt after each hand
 
   private constructor() {}
 
@@ -31,114 +89,363 @@ export class PlayerTracker {
   }
 
   public processGameState(gameState: GameState): void {
-    // Initialize tracking for new players
+    // Games we haven't heard from in a while are over; count the hand they were left in
+    this.sessions.evictIdle().forEach(session => {
+      this.finishHand(session);
+      logger.info('Game session ended', { ...session.summary() });
+    });
+
+    const session = this.sessions.sessionFor(gameState);
+    session.observe(gameState, true);
+    this.ourName = gameState.ourPlayer().name;
+
+    this.trackPlayers(gameState);
+    if (!session.currentHand || session.currentHand.round !== gameState.round) {
+      this.openHand(session, gameState);
+    }
+
+    // Replay everything that happened since our last turn
+    session.handReconstructor.observe(gameState).forEach(action => this.trackAction(session, gameState, action));
+  }
+
+  // Initializes tracking for new players, and follows players to their seat in this game
+  private trackPlayers(gameState: GameState): void {
     gameState.players.forEach(player => {
-      if (!this.playerStats.has(player.id)) {
-        this.playerStats.set(player.id, {
+      const stats = this.playerStats.get(player.name);
+      if (!stats || stats.version !== player.version) this.population = null;
+      if (!stats) {
+        this.playerStats.set(player.name, {
           id: player.id,
           name: player.name,
+          version: player.version,
           actions: [],
-          aggressivenessScore: 0.5 // Default neutral score
+          aggressivenessScore: 0.5, // Default neutral score
+          showdowns: [],
+          profile: this.profileFor(player)
         });
+      } else {
+        stats.id = player.id;
+        stats.version = player.version;
+        stats.profile.currentVersion = player.version;
       }
     });
+  }
 
-    // If this is a new hand or we don't have previous state, just record current bets
-    if (!this.lastGameState || 
-        this.lastGameState.gameId !== gameState.gameId || 
-        this.lastGameState.round !== gameState.round ||
-        this.lastGameState.betIndex >= gameState.betIndex) {
-      
-      this.updateLastGameState(gameState);
-      return;
+  private openHand(session: GameSession, gameState: GameState): void {
+    this.finishHand(session);
+    session.currentHand = {
+      gameId: gameState.gameId,
+      round: gameState.round,
+      participants: gameState.players.filter(p => p.status !== 'out').map(p => p.id),
+      actions: [],
+      showdownPlayers: [],
+      playerNames: new Map(gameState.players.map(p => [p.id, p.name])),
+      ranges: new Map()
+    };
+  }
+
+  public recordOwnBet(gameState: GameState, bet: number): void {
+    this.sessions.find(gameState.gameId)?.handReconstructor.recordOwnBet(gameState, bet);
+  }
+
+  /**
+   * Everything reconstructed so far in the hand the game state belongs to, blinds included.
+   */
+  public currentHandActions(gameState: GameState): PlayerAction[] {
+    const reconstructor = this.sessions.find(gameState.gameId)?.handReconstructor;
+    return reconstructor?.isSameHand(gameState) ? reconstructor.handActions() : [];
+  }
+
+  private finishHand(session: GameSession): void {
+    const hand = session.currentHand;
+    if (!hand) return;
+
+    hand.participants.forEach(playerId => {
+      const stats = this.playerStats.get(hand.playerNames.get(playerId)!);
+      if (!stats) return;
+
+      const data = this.currentData(stats);
+      OpponentStatistics.recordHand(data.hud, playerId, hand);
+      data.handsSeen++;
+      data.lastSeen = new Date().toISOString();
+    });
+    session.currentHand = undefined;
+    this.population = null;
+  }
+
+  /**
+   * Loads the saved opponent profiles and keeps saving them in the background.
+   */
+  public attachStore(store: ProfileStore): void {
+    store.load().forEach(profile => this.profiles.set(profile.name, profile));
+    this.store = store;
+    this.population = null;
+    logger.info('Loaded opponent profiles', { count: this.profiles.size });
+
+    setInterval(() => this.flushProfiles(), this.FLUSH_INTERVAL).unref();
+  }
+
+  public flushProfiles(): Promise<void> {
+    if (!this.store) return Promise.resolve();
+
+    return this.store.save(Array.from(this.profiles.values()))
+      .catch(error => logger.error('Error saving opponent profiles', error));
+  }
+
+  private profileFor(player: Player): OpponentProfile {
+    let profile = this.profiles.get(player.name);
+    if (!profile) {
+      profile = { name: player.name, currentVersion: player.version, versions: {} };
+      this.profiles.set(player.name, profile);
     }
+    profile.currentVersion = player.version;
+    return profile;
+  }
 
-    // Identify actions by comparing with previous state
-    this.identifyPlayerActions(gameState);
-    
-    // Update for next comparison
-    this.updateLastGameState(gameState);
+  private currentData(stats: PlayerStats): ProfileData {
+    const versions = stats.profile.versions;
+    if (!versions[stats.version]) {
+      versions[stats.version] = this.emptyProfileData();
+    }
+    return versions[stats.version];
   }
 
-  private updateLastGameState(gameState: GameState): void {
-    const playerBets = new Map<number, number>();
-    gameState.players.forEach(player => {
-      playerBets.set(player.id, player.bet);
+  // Combines the data from every version we have seen, with older versions counting for less
+  private weightedData(stats: PlayerStats | undefined): ProfileData {
+    const combined = this.emptyProfileData();
+    if (!stats) return combined;
+
+    Object.entries(stats.profile.versions).forEach(([version, data]) => {
+      const weight = version === stats.version ? 1 : this.OLD_VERSION_WEIGHT;
+      OpponentStatistics.mergeInto(combined.hud, data.hud, weight);
+      combined.aggressiveShowdowns += data.aggressiveShowdowns * weight;
+      combined.bluffs += data.bluffs * weight;
+      combined.handsSeen += data.handsSeen * weight;
+
+      Object.entries(data.showdownStrengthByAction).forEach(([key, actionStats]) => {
+        const target = combined.showdownStrengthByAction[key] ||
+          (combined.showdownStrengthByAction[key] = { count: 0, totalStrength: 0, handClasses: {} });
+        target.count += actionStats.count * weight;
+        target.totalStrength += actionStats.totalStrength * weight;
+        Object.entries(actionStats.handClasses).forEach(([handClass, count]) => {
+          const key = handClass as MadeHandClass;
+          target.handClasses[key] = (target.handClasses[key] || 0) + count * weight;
+        });
+      });
     });
+    return combined;
+  }
 
-    this.lastGameState = {
-      gameId: gameState.gameId,
-      round: gameState.round,
-      betIndex: gameState.betIndex,
-      playerBets
+  private emptyProfileData(): ProfileData {
+    return {
+      hud: OpponentStatistics.emptyCounters(),
+      aggressiveShowdowns: 0,
+      bluffs: 0,
+      showdownStrengthByAction: {},
+      handsSeen: 0,
+      lastSeen: new Date().toISOString()
     };
   }
 
-  private identifyPlayerActions(gameState: GameState): void {
-    if (!this.lastGameState) return;
+  private trackAction(session: GameSession, gameState: GameState, action: PlayerAction): void {
+    const player = gameState.players[action.playerId];
+    const stats = this.playerStats.get(player.name)!;
+
+    stats.actions.push(action);
+    if (stats.actions.length > this.MAX_RECENT_ACTIONS) stats.actions.shift();
+    session.currentHand?.actions.push(action);
+
+    // Blinds and our own play say nothing about how aggressive a player is
+    if (action.action === 'post_blind' || player.id === gameState.ourPlayer().id) return;
+
+    const hand = session.currentHand;
+    if (hand && hand.round === action.round) {
+      const range = hand.ranges.get(player.id) || this.initialRange(gameState, player);
+      range.update(action, gameState.communityCards.slice(0, PlayerTracker.BOARD_SIZE[action.street]), this.rangeTendencies(player.name));
+      hand.ranges.set(player.id, range);
+    }
+
+    this.updateAggressivenessScore(stats);
+    
+    logger.debug('Player action', { player: player.name, seat: player.id, action: action.action, amount: action.amount, street: action.street });
+  }
+
+  /**
+   * Links the hole cards revealed at showdown to what each opponent did earlier in the hand.
+   */
+  public processShowdown(gameState: GameState): void {
+    // Fill in what happened after our last turn
+    const session = this.sessions.sessionFor(gameState);
+    session.observe(gameState, false);
+    if (!session.handReconstructor.isSameHand(gameState)) {
+      // We never got to act in this hand, e.g. everyone folded to our big blind
+      this.trackPlayers(gameState);
+      this.openHand(session, gameState);
+    }
+    if (session.currentHand && session.currentHand.round === gameState.round) {
+      session.handReconstructor.observeShowdown(gameState).forEach(action => this.trackAction(session, gameState, action));
+
+      // Our own cards are always in the payload, so it only went to showdown if an opponent's were too
+      const ourId = gameState.ourPlayer().id;
+      const stillIn = gameState.players.filter(p => p.status === 'active');
+      const contested = stillIn.length > 1 && stillIn.some(p => p.id !== ourId && p.holeCards.length === 2);
+      session.currentHand.showdownPlayers = contested ? stillIn.map(p => p.id) : [];
+      this.finishHand(session);
+    }
+
+    if (gameState.communityCards.length < 3) return;
 
     gameState.players.forEach(player => {
-      const previousBet = this.lastGameState!.playerBets.get(player.id) || 0;
-      
-      // Skip our own player and players who were already out
-      if (player.id === gameState.ourPlayer().id || 
-          player.status === 'out') return;
-      
-      // Detect action
-      if (player.status === 'folded' && previousBet >= 0) {
-        this.trackAction(player.id, player.name, gameState, 'fold', player.bet);
-      } else if (player.bet > previousBet) {
-        // Determine if it's a call or raise
-        const otherPlayerMaxBet = Math.max(...Array.from(this.lastGameState!.playerBets.values()));
-        
-        if (player.bet > otherPlayerMaxBet) {
-          this.trackAction(player.id, player.name, gameState, 'raise', player.bet);
-        } else {
-          this.trackAction(player.id, player.name, gameState, 'call', player.bet);
-        }
-      }
+      const stats = this.playerStats.get(player.name);
+      if (!stats || player.id === gameState.ourPlayer().id || player.holeCards.length !== 2) return;
+
+      // Lean Poker sends a single showdown per hand, but don't count a replayed payload twice
+      if (stats.showdowns.some(s => s.gameId === gameState.gameId && s.round === gameState.round)) return;
+
+      const handClass = HandEvaluator.classifyMadeHand(player.holeCards, gameState.communityCards);
+      const handStrength = HandEvaluator.evaluateHandStrength(player.holeCards, gameState.communityCards);
+      const actions = stats.actions.filter(a => a.gameId === gameState.gameId && a.round === gameState.round);
+      // A bluff is judged where the chips went in: a value raise before the flop that missed, or a bet
+      // that was good when made and got outdrawn, is not one
+      const lastAggression = actions.filter(a => HandReconstructor.isAggressive(a)).pop();
+      const aggressionStreet = lastAggression && lastAggression.street !== 'pre-flop' ? lastAggression.street : null;
+      const raised = aggressionStreet !== null;
+      const bluffed = aggressionStreet !== null && HandEvaluator.classifyMadeHand(
+        player.holeCards, gameState.communityCards.slice(0, PlayerTracker.BOARD_SIZE[aggressionStreet])
+      ) === 'air';
+
+      stats.showdowns.push({
+        gameId: gameState.gameId,
+        round: gameState.round,
+        holeCards: player.holeCards,
+        handClass,
+        handStrength,
+        actions,
+        bluffed
+      });
+      if (stats.showdowns.length > this.MAX_RECENT_SHOWDOWNS) stats.showdowns.shift();
+
+      const data = this.currentData(stats);
+      if (raised) data.aggressiveShowdowns++;
+      if (bluffed) data.bluffs++;
+
+      actions.forEach(action => {
+        const key = `${action.street} ${action.action}`;
+        const actionStats = data.showdownStrengthByAction[key] ||
+          (data.showdownStrengthByAction[key] = { count: 0, totalStrength: 0, handClasses: {} });
+        actionStats.count++;
+        actionStats.totalStrength += handStrength;
+        actionStats.handClasses[handClass] = (actionStats.handClasses[handClass] || 0) + 1;
+      });
+
+      logger.debug('Showdown hand', {
+        player: player.name,
+        seat: player.id,
+        handClass,
+        actions: actions.map(a => `${a.action} ${a.street}`),
+        bluffed
+      });
     });
   }
 
-  private trackAction(
-    playerId: number, 
-    playerName: string, 
-    gameState: GameState, 
-    action: 'fold' | 'call' | 'raise', 
-    betAmount: number
-  ): void {
-    const stats = this.playerStats.get(playerId)!;
-    
-    stats.actions.push({
-      gameId: gameState.gameId,
-      round: gameState.round,
-      betIndex: gameState.betIndex,
-      action,
-      betAmount
-    });
-    
-    this.updateAggressivenessScore(playerId);
-    
-    console.log(`Player ${playerName} (ID: ${playerId}) ${action} with bet ${betAmount}`);
+  /**
+   * Share of showdowns in which the player had bet or raised after the flop that turned out to be bluffs.
+   */
+  public getBluffFrequency(playerName: string): { frequency: number, sampleSize: number } {
+    const data = this.weightedData(this.playerStats.get(playerName));
+    if (data.aggressiveShowdowns === 0) return { frequency: 0, sampleSize: 0 };
+    return { frequency: data.bluffs / data.aggressiveShowdowns, sampleSize: data.aggressiveShowdowns };
+  }
+
+  /**
+   * Average strength of the hands the player showed down after taking the given action on the given street.
+   */
+  public getShowdownStrength(
+    playerName: string,
+    street: string,
+    action: ActionType
+  ): { averageStrength: number, sampleSize: number } | null {
+    const actionStats = this.weightedData(this.playerStats.get(playerName)).showdownStrengthByAction[`${street} ${action}`];
+    if (!actionStats || actionStats.count === 0) return null;
+    return { averageStrength: actionStats.totalStrength / actionStats.count, sampleSize: actionStats.count };
   }
 
-  public getAggressivenessScore(playerId: number): number {
-    return this.playerStats.get(playerId)?.aggressivenessScore || 0.5;
+  /**
+   * Standard HUD statistic for a player. Small samples lean on the average over everyone we have tracked.
+   */
+  public getStat(playerName: string, stat: StatName, street?: Street): StatValue {
+    return OpponentStatistics.estimate(stat, this.weightedData(this.playerStats.get(playerName)).hud, this.populationCounters(), street);
+  }
+
+  // What opponents in general do, the prior for players we have little data on; our own play is left out
+  private populationCounters(): HudCounters {
+    if (!this.population) {
+      const population = OpponentStatistics.emptyCounters();
+      this.playerStats.forEach(other => {
+        if (other.name !== this.ourName) OpponentStatistics.mergeInto(population, this.weightedData(other).hud);
+      });
+      this.population = population;
+    }
+    return this.population;
+  }
+
+  /**
+   * What the opponent is likely to hold in the hand the game state belongs to, narrowed by every
+   * action it took so far and without the combos our hole cards and the board rule out.
+   */
+  public rangeOf(gameState: GameState, player: Player): HandRange {
+    const hand = this.sessions.find(gameState.gameId)?.currentHand;
+    const tracked = hand?.round === gameState.round ? hand.ranges.get(player.id) : undefined;
+    const range = tracked ? tracked.clone() : this.initialRange(gameState, player);
+    return range.removeBlocked([...gameState.ourPlayer().holeCards, ...gameState.communityCards]);
+  }
+
+  private initialRange(gameState: GameState, player: Player): HandRange {
+    return HandRange.initial(gameState.positionOf(player.id), this.rangeTendencies(player.name));
+  }
+
+  private rangeTendencies(playerName: string): RangeTendencies {
+    return {
+      vpip: this.getStat(playerName, 'vpip').value,
+      pfr: this.getStat(playerName, 'pfr').value,
+      aggressionFactor: this.getStat(playerName, 'aggressionFactor').value
+    };
+  }
+
+  public getAggressivenessScore(playerName: string): number {
+    return this.playerStats.get(playerName)?.aggressivenessScore || 0.5;
   }
 
   public getAllPlayerStats(): PlayerStats[] {
     return Array.from(this.playerStats.values());
   }
 
-  private updateAggressivenessScore(playerId: number): void {
-    const stats = this.playerStats.get(playerId);
-    if (!stats || stats.actions.length === 0) return;
+  /**
+   * What we currently believe about each opponent, in a form that can be served as JSON.
+   */
+  public getOpponentSummaries(): OpponentSummary[] {
+    const statNames: StatName[] = ['vpip', 'pfr', 'threeBet', 'aggressionFactor', 'wentToShowdown', 'foldToContinuationBet'];
+
+    return this.getAllPlayerStats().map(player => ({
+      name: player.name,
+      version: player.version,
+      seat: player.id,
+      handsSeen: this.weightedData(player).handsSeen,
+      aggressivenessScore: player.aggressivenessScore,
+      stats: Object.fromEntries(statNames.map(stat => [stat, this.getStat(player.name, stat)])) as { [stat in StatName]: StatValue },
+      bluffFrequency: this.getBluffFrequency(player.name),
+      knownVersions: Object.keys(player.profile.versions)
+    }));
+  }
+
+  private updateAggressivenessScore(stats: PlayerStats): void {
+    if (stats.actions.length === 0) return;
 
     // Look at the last 20 actions or all if fewer
-    const recentActions = stats.actions.slice(-20);
+    const recentActions = stats.actions.filter(a => a.action !== 'post_blind').slice(-20);
     
     // Count aggressive actions (raises)
-    const raiseCount = recentActions.filter(a => a.action === 'raise').length;
+    const raiseCount = recentActions.filter(a => HandReconstructor.isAggressive(a)).length;
     const foldCount = recentActions.filter(a => a.action === 'fold').length;
     
     // Calculate aggressiveness (0-1 scale)
@@ -152,19 +459,12 @@ export class PlayerTracker {
     );
     
     stats.aggressivenessScore = aggressivenessScore;
-    console.log(`Updated aggressiveness score for player ${stats.name}: ${aggressivenessScore.toFixed(2)}`);
+    logger.debug('Updated aggressiveness score', { player: stats.name, aggressivenessScore });
   }
 
   public logPlayerStats(): void {
-    console.log("\n=== PLAYER STATISTICS ===");
-    this.getAllPlayerStats().forEach(player => {
-      console.log(`${player.name} (ID: ${player.id}): Aggressiveness = ${player.aggressivenessScore.toFixed(2)}`);
-      console.log(`  Total actions: ${player.actions.length}`);
-      const raises = player.actions.filter(a => a.action === 'raise').length;
-      const calls = player.actions.filter(a => a.action === 'call').length;
-      const folds = player.actions.filter(a => a.action === 'fold').length;
-      console.log(`  Raises: ${raises}, Calls: ${calls}, Folds: ${folds}`);
-    });
-    console.log("========================\n");
+    if (!logger.isEnabled('debug')) return;
+    logger.debug('Player statistics', { players: this.getOpponentSummaries() });
   }
+
 }
@@ -1,47 +1,127 @@
 import { GameState } from './GameState';
 import { HandEvaluator } from './HandEvaluator';
+import { EquityCalculator, EquityResult } from './EquityCalculator';
 import { PlayerTracker } from './PlayerTracker';
 import { TournamentDataService } from './TournamentDataService';
+import { BetAction, BetLegalizer } from './BetLegalizer';
+import { BetAmounts, ContinuationBet, Strategy } from './Strategy';
+import { StrategyRegistry } from './StrategyRegistry';
+import { StageInfo, TournamentStage } from './TournamentStage';
+import { PreflopCharts } from './PreflopCharts';
+import { BoardTexture } from './BoardTexture';
+import { BetSizing, SizingMenu } from './BetSizing';
+import { HandRange } from './HandRange';
+import { ResultsLedger } from './ResultsLedger';
+import { HandReconstructor } from './HandReconstructor';
+import { DecisionLog, DecisionRecord } from './DecisionLog';
+import { LatencyStats } from './LatencyStats';
+import { Random, RandomProvider, RandomSource, SampledBranch } from './Random';
+import { Config } from './Config';
+import { Logger } from './Logger';
+
+const logger = new Logger('PokerBot');
+
+export interface PokerBotOptions {
+  equityBudgetMs?: number; // Time allowed for the equity simulation on each decision
+  responseBudgetMs?: number; // Time allowed for the whole bet request, `response_budget_ms` by default
+  fetchTournamentData?: boolean; // Disable to play without network access, e.g. in the local simulator
+  random?: RandomProvider; // Seeded per decision by default, see Random.perDecision
+  equityRandom?: RandomProvider; // Feeds the equity simulations, Random.equityPerDecision by default
+}
 
 export class PokerBot {
-  public static readonly VERSION = "Dynamic Tournament Strategy v1.3";
+  private static readonly BASE_VERSION = "Dynamic Tournament Strategy v1.3";
+  private static readonly EQUITY_BUDGET_MS = 300; // Leaves headroom inside the response budget
+  private static readonly RESPONSE_BUDGET_MS = 800;
+  private static readonly SAFETY_MARGIN_MS = 50; // Kept free for legalizing, logging and sending the bet
+  private static readonly SEEDED_EQUITY_SAMPLES = 5000; // Deals per decision with `rng_seed` set
   private playerTracker: PlayerTracker = PlayerTracker.getInstance();
   private tournamentDataService: TournamentDataService = TournamentDataService.getInstance();
+  private resultsLedger: ResultsLedger = ResultsLedger.getInstance();
+  private equityBudgetMs: number;
+  private responseBudgetMs: number;
+  private fetchTournamentData: boolean;
+  private random: RandomProvider;
+  private equityRandom: RandomProvider;
+
+  // Reported to the tournament, e.g. "Dynamic Tournament Strategy v1.3 [default]"
+  public static get VERSION(): string {
+    return `${PokerBot.BASE_VERSION} [${StrategyRegistry.getInstance().describe()}]`;
+  }
+
+  constructor(options: PokerBotOptions = {}) {
+    this.equityBudgetMs = options.equityBudgetMs ?? PokerBot.EQUITY_BUDGET_MS;
+    this.responseBudgetMs = options.responseBudgetMs ??
+                            Config.getNumber('response_budget_ms', PokerBot.RESPONSE_BUDGET_MS);
+    this.fetchTournamentData = options.fetchTournamentData ?? true;
+    this.random = options.random ?? Random.perDecision;
+    this.equityRandom = options.equityRandom ?? Random.equityPerDecision;
+  }
+
+  public betRequest(gameState: GameState, respond: (bet: number) => void): void {
+    const startTime = Date.now();
+    const deadline = startTime + this.responseBudgetMs;
+    let answered = false;
+
+    // The one and only reply to this request
+    const reply = (bet: number) => {
+      if (answered) return;
+      answered = true;
+      clearTimeout(deadlineTimer);
+      this.playerTracker.recordOwnBet(gameState, bet);
+      respond(bet);
+    };
+
+    // Out of time without a decision: answer safely rather than not at all
+    const deadlineTimer = setTimeout(() => {
+      LatencyStats.getInstance().recordDeadlineHit();
+      logger.warn('Response deadline hit, sending the fallback bet', {
+        gameId: gameState.gameId, round: gameState.round, budgetMs: this.responseBudgetMs
+      });
+      reply(PokerBot.fallbackBet(gameState));
+    }, this.responseBudgetMs);
 
-  public betRequest(gameState: GameState, betCallback: (bet: number) => void): void {
     try {
       // Process the game state to track player actions
       this.playerTracker.processGameState(gameState);
-      
-      // Fetch tournament data asynchronously
-      this.tournamentDataService.fetchTournamentData()
-        .then(() => {
-          this.playerTracker.logPlayerStats();
-          betCallback(this.makeBetDecision(gameState));
-        })
-        .catch(error => {
-          console.error("Error in tournament data fetch:", error);
-          betCallback(this.makeBetDecision(gameState));
-        });
-      
-      // If the fetch takes too long, we'll make a decision without updated data
-      setTimeout(() => {
-        betCallback(this.makeBetDecision(gameState));
-      }, 800); // 800ms timeout to ensure we respond
-      
+      this.resultsLedger.observeBetRequest(gameState);
     } catch (e) {
-      console.error('Error in betRequest:', e);
-      betCallback(0); // Fold if there's an error
+      logger.error('Error processing game state', e, { gameId: gameState.gameId, round: gameState.round });
     }
+
+    this.waitForTournamentData(deadline)
+      .then(() => {
+        if (answered) return;
+        const bet = this.makeBetDecision(gameState, startTime, deadline);
+        if (Date.now() > deadline) {
+          LatencyStats.getInstance().recordDeadlineHit();
+          logger.warn('Decision finished after the response deadline', {
+            gameId: gameState.gameId, round: gameState.round, durationMs: Date.now() - startTime
+          });
+        }
+        reply(bet);
+      })
+      .catch(e => {
+        logger.error('Error in betRequest', e, { gameId: gameState.gameId, round: gameState.round });
+        reply(PokerBot.fallbackBet(gameState));
+      });
   }
 
-  // noinspection JSUnusedLocalSymbols
   public showdown(gameState: GameState): void {
-    // Log final player statistics at showdown
+    // Learn from the hands revealed at showdown, then log final player statistics
+    this.playerTracker.processShowdown(gameState);
+    this.resultsLedger.observeShowdown(gameState);
     this.playerTracker.logPlayerStats();
+    this.playerTracker.flushProfiles();
   }
 
-  public static betAmounts(gameState: GameState, handStrength: number, opponentAggression: number, isHeadsUp: boolean): any {
+  public static betAmounts(
+    gameState: GameState,
+    handStrength: number,
+    opponentAggression: number,
+    isHeadsUp: boolean,
+    isPreFlopAggressor: boolean = false
+  ): BetAmounts {
     // Adjust bet sizing based on hand strength, position, round, and opponent aggression
     let betRatio = handStrength * PokerBot.positionFactor(gameState) * PokerBot.roundFactor(gameState);
     
@@ -53,136 +133,213 @@ export class PokerBot {
       // Multiple aggressive opponents - be more selective with bet sizing
       betRatio = handStrength > 0.6 ? betRatio * 1.2 : betRatio * 0.7;
     }
+
+    // Bet smaller on dry boards and bigger on wet ones, relative to the usual half-pot sizing
+    const texture = BoardTexture.analyze(gameState.communityCards);
+    if (texture) {
+      betRatio = betRatio * BoardTexture.betSizing(texture) / 0.5;
+    }
     
-    const potBet = Math.round(gameState.pot * betRatio);
+    // Continuation bet: first to bet on the flop after raising pre-flop
+    let continuationBet: ContinuationBet | null = null;
+    if (texture && isPreFlopAggressor && gameState.pokerRound() === 'flop' && gameState.toCall() === 0) {
+      const opponentCount = gameState.activePlayers().length - 1;
+      continuationBet = {
+        action: BetSizing.potRaise(gameState, BoardTexture.betSizing(texture)),
+        frequency: BoardTexture.continuationBetFrequency(texture, opponentCount)
+      };
+    }
+
+    const sizing = BetSizing.menu(gameState);
+    const { bigRaise, hugeRaise } = PokerBot.raiseSizes(gameState, sizing);
 
     return {
-      fold: 0,
-      call: gameState.toCall(),
-      smallRaise: gameState.toCall() + Math.max(gameState.minimumRaise, potBet),
-      bigRaise: gameState.toCall() + gameState.minimumRaise * 2,
+      fold: { type: 'fold' },
+      call: { type: 'call' },
+      smallRaise: BetSizing.potRaise(gameState, betRatio),
+      bigRaise,
       // Add a larger raise option for heads-up aggressive play
-      hugeRaise: gameState.toCall() + gameState.minimumRaise * 3
+      hugeRaise,
+      continuationBet,
+      sizing
     }
   }
 
-  private makeBetDecision(gameState: GameState): number {
-    const handStrength = HandEvaluator.evaluateHandStrength(
-      gameState.ourPlayer().holeCards,
-      gameState.communityCards
-    );
-    
+  // Opening sizes in big blinds before anyone raised, otherwise shares of the pot that grow as the
+  // stacks get shallower relative to the pot, until the larger size is simply all-in
+  private static raiseSizes(gameState: GameState, sizing: SizingMenu): { bigRaise: BetAction, hugeRaise: BetAction } {
+    if (sizing.preflop && gameState.currentBuyIn <= TournamentStage.bigBlind(gameState)) {
+      return { bigRaise: sizing.preflop[3], hugeRaise: sizing.preflop[4] };
+    }
+    if (sizing.spr <= 2) {
+      return { bigRaise: sizing.potFractions.pot, hugeRaise: sizing.allIn };
+    }
+    if (sizing.spr <= 6) {
+      return { bigRaise: sizing.potFractions.threeQuarters, hugeRaise: sizing.potFractions.pot };
+    }
+    return { bigRaise: sizing.potFractions.threeQuarters, hugeRaise: sizing.geometric ?? sizing.potFractions.pot };
+  }
+
+  /**
+   * Check when that is free, otherwise fold: the answer given when no decision is ready in time.
+   */
+  public static fallbackBet(gameState: GameState): number {
+    const action: BetAction = gameState.toCall() === 0 ? { type: 'check' } : { type: 'fold' };
+    return BetLegalizer.preview(action, gameState).amount;
+  }
+
+  // Waits for fresh standings only as long as still leaves the equity simulation its full budget;
+  // after that we decide with the data we already have, and the refresh carries on for later requests
+  private waitForTournamentData(deadline: number): Promise<void> {
+    if (!this.fetchTournamentData) return Promise.resolve();
+
+    const window = Math.max(0, deadline - Date.now() - this.equityBudgetMs - PokerBot.SAFETY_MARGIN_MS);
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, window);
+      this.tournamentDataService.fetchTournamentData()
+        .catch(error => logger.error('Error in tournament data fetch', error))
+        .finally(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+    });
+  }
+
+  private makeBetDecision(gameState: GameState, startTime: number, deadline: number): number {
     // Calculate opponent information
     const opponents = gameState.activePlayers().filter(p => p.id !== gameState.ourPlayer().id);
     const isHeadsUp = opponents.length === 1;
+    const equityBudgetMs = Math.max(0, Math.min(this.equityBudgetMs, deadline - Date.now() - PokerBot.SAFETY_MARGIN_MS));
+    const ranges = opponents.map(player => this.playerTracker.rangeOf(gameState, player));
+    const equityRandom = this.equityRandom(gameState);
+    const { handStrength, equity } = this.estimateHandStrength(gameState, ranges, equityBudgetMs, equityRandom);
     let avgOpponentAggression = 0.5; // Default value
     
     if (opponents.length > 0) {
       const totalAggression = opponents.reduce((sum, player) => {
-        return sum + this.playerTracker.getAggressivenessScore(player.id);
+        return sum + this.playerTracker.getAggressivenessScore(player.name);
       }, 0);
       avgOpponentAggression = totalAggression / opponents.length;
     }
     
-    console.log(`Hand strength: ${handStrength.toFixed(2)}, Average opponent aggressiveness: ${avgOpponentAggression.toFixed(2)}`);
-    console.log(`Active opponents: ${opponents.length}, Heads-up: ${isHeadsUp}`);
-    
-    // Check if we're in heads-up against the lowest scoring player
-    const isLowestScoringOpponent = isHeadsUp && opponents[0] && 
-                                   this.tournamentDataService.isLowestScoreTeam(opponents[0].name);
-    
-    if (isLowestScoringOpponent) {
-      const opponentName = opponents[0].name;
-      console.log(`Strategy: Let ${opponentName} win in heads-up (lowest scoring team)`);
-      
-      // Play very passively against the lowest scoring team
-      if (handStrength > 0.85) {
-        // Only play very strong hands, and even then just call
-        return gameState.toCall();
-      } else {
-        // Fold everything else
-        return 0;
-      }
-    }
-    
-    const betAmounts = PokerBot.betAmounts(gameState, handStrength, avgOpponentAggression, isHeadsUp);
-
-    // Multiple aggressive opponents - play conservatively and wait for strong hands
-    if (!isHeadsUp && avgOpponentAggression > 0.7) {
-      console.log("Strategy: Conservative against multiple aggressive opponents");
-      
-      if (handStrength > 0.7) {
-        return betAmounts.bigRaise; // Value bet very strong hands
-      } else if (handStrength > 0.5) {
-        return betAmounts.smallRaise; // Value bet strong hands
-      } else if (handStrength > 0.35 && gameState.toCall() <= gameState.smallBlind * 4) {
-        return betAmounts.call; // Call with medium hands if cheap
-      } else {
-        return betAmounts.fold; // Otherwise fold
-      }
-    } 
-    // Heads-up against aggressive opponent - be more aggressive to counter
-    else if (isHeadsUp && avgOpponentAggression > 0.7) {
-      console.log("Strategy: AGGRESSIVE heads-up play");
-      
-      // Use stack size to adjust strategy
-      const stackRatio = gameState.ourPlayer().stack / 
-                         (opponents[0].stack + gameState.pot);
-      const isShortStacked = stackRatio < 0.5;
-      
-      if (handStrength > 0.6) {
-        // With strong hands, be very aggressive
-        const raiseRandom = Math.random();
-        if (raiseRandom < 0.6) {
-          return betAmounts.bigRaise;
-        } else if (raiseRandom < 0.8) {
-          return betAmounts.hugeRaise;
-        } else {
-          // Occasionally slow-play to trap
-          return betAmounts.call;
-        }
-      } else if (handStrength > 0.4) {
-        // With medium-strong hands, be aggressive
-        return Math.random() < 0.7 ? betAmounts.smallRaise : betAmounts.call;
-      } else if (handStrength > 0.3) {
-        // With medium hands, mix calls with raises
-        if (gameState.pokerRound() === 'river') {
-          // Value bet more on the river
-          return Math.random() < 0.6 ? betAmounts.smallRaise : betAmounts.call;
-        }
-        return Math.random() < 0.4 ? betAmounts.smallRaise : betAmounts.call;
-      } else if (handStrength > 0.2 && gameState.toCall() <= gameState.smallBlind * 6) {
-        // With medium-weak hands, call if cheap
-        return betAmounts.call;
-      } else if (handStrength < 0.2) {
-        // With weak hands, mix in some bluffs
-        if (gameState.pokerRound() === 'river' && Math.random() < 0.25) {
-          return betAmounts.smallRaise; // Bluff on river
-        } else if ((gameState.pokerRound() === 'turn' || gameState.pokerRound() === 'flop') && Math.random() < 0.15) {
-          return betAmounts.smallRaise; // Semi-bluff on earlier streets
-        } else if (gameState.toCall() <= gameState.smallBlind * 2) {
-          return betAmounts.call; // Call very cheap bets with any hand
-        } else {
-          return betAmounts.fold;
-        }
-      } else {
-        return betAmounts.fold;
+    const preFlopRaises = this.playerTracker.currentHandActions(gameState)
+      .filter(action => action.street === 'pre-flop' && HandReconstructor.isAggressive(action));
+    const isPreFlopAggressor = preFlopRaises.length > 0 &&
+                               preFlopRaises[preFlopRaises.length - 1].playerId === gameState.ourPlayer().id;
+    const betAmounts = PokerBot.betAmounts(gameState, handStrength, avgOpponentAggression, isHeadsUp, isPreFlopAggressor);
+
+    const board = BoardTexture.analyze(gameState.communityCards);
+    const draws = board ? HandEvaluator.analyzeDraws(gameState.ourPlayer().holeCards, gameState.communityCards) : null;
+    const stage = TournamentStage.analyze(gameState);
+    const strategy = this.chooseStrategy(gameState, stage);
+
+    const reasons: string[] = [];
+    const mixes: SampledBranch[] = [];
+    let branch: string | null = null;
+    const random = this.random(gameState);
+    const action = strategy.decide({
+      gameState,
+      handStrength,
+      equity,
+      opponents,
+      isHeadsUp,
+      averageOpponentAggression: avgOpponentAggression,
+      betAmounts,
+      playerTracker: this.playerTracker,
+      tournamentDataService: this.tournamentDataService,
+      explain: reason => reasons.push(reason),
+      branch: name => branch = name,
+      random,
+      equityRandom,
+      choose: (label, mix) => {
+        const sampled = Random.sample(random, label, mix);
+        mixes.push(sampled);
+        return sampled.branch;
       }
+    });
+
+    const legalBet = BetLegalizer.legalize(action, gameState);
+    const ourPlayer = gameState.ourPlayer();
+    const decision: DecisionRecord = {
+      timestamp: new Date().toISOString(),
+      gameId: gameState.gameId,
+      round: gameState.round,
+      betIndex: gameState.betIndex,
+      street: gameState.pokerRound(),
+      position: gameState.ourPosition(),
+      holeCards: ourPlayer.holeCards,
+      communityCards: gameState.communityCards,
+      pot: gameState.pot,
+      toCall: gameState.toCall(),
+      stack: ourPlayer.stack,
+      evaluation: { handStrength, equity, draws, board, stage },
+      opponents: opponents.map((player, index) => ({
+        name: player.name,
+        rangeCombos: Math.round(ranges[index].comboCount()),
+        likelyHands: ranges[index].topClasses(5),
+        aggressiveness: this.playerTracker.getAggressivenessScore(player.name),
+        vpip: this.playerTracker.getStat(player.name, 'vpip').value,
+        pfr: this.playerTracker.getStat(player.name, 'pfr').value,
+        aggressionFactor: this.playerTracker.getStat(player.name, 'aggressionFactor').value,
+        foldToContinuationBet: this.playerTracker.getStat(player.name, 'foldToContinuationBet').value
+      })),
+      strategy: strategy.name,
+      branch,
+      reasons,
+      mixes,
+      candidates: betAmounts,
+      action,
+      bet: legalBet.amount,
+      corrections: legalBet.corrections,
+      durationMs: Date.now() - startTime
+    };
+    DecisionLog.getInstance().record(decision);
+    this.resultsLedger.recordDecision(gameState, strategy.name, branch);
+    logger.info('decision', { ...decision });
+
+    return legalBet.amount;
+  }
+
+  // Before the flop, whatever strategy is configured, short stacks play all-in or fold and deeper
+  // stacks follow the range charts
+  private chooseStrategy(gameState: GameState, stage: StageInfo): Strategy {
+    const registry = StrategyRegistry.getInstance();
+    if (gameState.pokerRound() !== 'pre-flop') return registry.select(gameState.gameId);
+    if (stage.pushFold) return registry.get('push-fold');
+    if (PreflopCharts.getInstance().isAvailable()) return registry.get('preflop-chart');
+    return registry.select(gameState.gameId);
+  }
+
+  // Our equity against what the opponents still in the hand are likely to hold
+  private estimateHandStrength(
+    gameState: GameState,
+    ranges: HandRange[],
+    budgetMs: number,
+    random: RandomSource
+  ): { handStrength: number, equity: EquityResult | null } {
+    const holeCards = gameState.ourPlayer().holeCards;
+    const opponentCount = ranges.length;
+    const sampleCount = Random.seededSampleCount(PokerBot.SEEDED_EQUITY_SAMPLES);
+    const started = Date.now();
+    const equity = EquityCalculator.calculateEquityAgainstRanges(
+      holeCards,
+      gameState.communityCards,
+      ranges,
+      budgetMs,
+      random,
+      sampleCount
+    );
+    if (sampleCount !== undefined && equity.samples < sampleCount && Date.now() - started >= budgetMs) {
+      logger.warn('Equity simulation ran out of time before its sample count, the decision may not replay the same way',
+                  { gameId: gameState.gameId, samples: equity.samples, sampleCount });
     }
-    // Non-aggressive or mixed opponents - use default strategy with slight adjustments
-    else {
-      console.log("Strategy: Default with adjustments");
-      
-      if (handStrength > 0.5) {
-        return betAmounts.bigRaise;
-      } else if (handStrength > 0.3) {
-        return betAmounts.smallRaise;
-      } else if (handStrength > 0.2 && gameState.toCall() <= gameState.smallBlind * 4) {
-        return betAmounts.call;
-      } else {
-        return betAmounts.fold;
-      }
+
+    if (equity.samples === 0) {
+      // No simulation possible (e.g. no opponents left), fall back to the static estimate
+      return { handStrength: HandEvaluator.evaluateHandStrength(holeCards, gameState.communityCards), equity: null };
     }
+
+    return { handStrength: EquityCalculator.toHandStrength(equity.equity, opponentCount), equity };
   }
 
   private static roundFactor(gameState: GameState): number {
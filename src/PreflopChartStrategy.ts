@@ -0,0 +1,59 @@
+import { BetAction } from './BetLegalizer';
+import { HandReconstructor } from './HandReconstructor';
+import { ChartSituation, PreflopCharts } from './PreflopCharts';
+import { StartingHands } from './StartingHands';
+import { DecisionContext, Strategy } from './Strategy';
+import { TournamentStage } from './TournamentStage';
+
+/**
+ * Pre-flop play straight from the position charts in the range file: open, flat, 3-bet or 4-bet
+ * depending on how many raises we face, and fold the rest.
+ */
+export class PreflopChartStrategy implements Strategy {
+  public readonly name = 'preflop-chart';
+
+  private static readonly OPEN_SIZE_BB = 2.5; // Plus one big blind for every limper
+  private static readonly THREE_BET_MULTIPLIER = 3;
+  private static readonly FOUR_BET_MULTIPLIER = 2.2;
+
+  public decide(context: DecisionContext): BetAction {
+    const { gameState } = context;
+    const charts = PreflopCharts.getInstance();
+    const position = gameState.ourPosition();
+    const handClass = StartingHands.handClass(gameState.ourPlayer().holeCards);
+    const bigBlind = TournamentStage.bigBlind(gameState);
+
+    const preFlop = context.playerTracker.currentHandActions(gameState)
+      .filter(action => action.street === 'pre-flop' && action.action !== 'post_blind');
+    // The reconstruction can miss a raise when we joined the hand late, the table can't
+    const raises = Math.max(
+      preFlop.filter(action => HandReconstructor.isAggressive(action)).length,
+      gameState.currentBuyIn > bigBlind ? 1 : 0
+    );
+    const limpers = raises === 0 ? preFlop.filter(action => action.action === 'call').length : 0;
+
+    const passive: BetAction = gameState.toCall() === 0 ? { type: 'check' } : { type: 'fold' };
+    const inRange = (situation: ChartSituation) => charts.contains(situation, position, handClass);
+    let decision: BetAction;
+
+    if (raises === 0) {
+      decision = inRange('open')
+        ? { type: 'raise', to: Math.round(bigBlind * (PreflopChartStrategy.OPEN_SIZE_BB + limpers)) }
+        : passive;
+    } else if (raises === 1) {
+      decision = inRange('3bet')
+        ? { type: 'raise', to: Math.round(gameState.currentBuyIn * PreflopChartStrategy.THREE_BET_MULTIPLIER) }
+        : inRange('call') ? { type: 'call' } : passive;
+    } else if (raises === 2) {
+      decision = inRange('4bet')
+        ? { type: 'raise', to: Math.round(gameState.currentBuyIn * PreflopChartStrategy.FOUR_BET_MULTIPLIER) }
+        : inRange('3bet') ? { type: 'call' } : passive;
+    } else {
+      decision = inRange('4bet') ? { type: 'all-in' } : passive;
+    }
+
+    context.explain(`Pre-flop chart: ${handClass} in ${position} facing ${raises} raise(s)` +
+                   `${limpers > 0 ? ` and ${limpers} limper(s)` : ''}: ${decision.type}`);
+    return decision;
+  }
+}
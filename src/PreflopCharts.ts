@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config } from './Config';
+import { Position } from './GameState';
+import { RangeNotation } from './RangeNotation';
+import { Logger } from './Logger';
+
+const logger = new Logger('PreflopCharts');
+
+export type ChartSituation = 'open' | 'call' | '3bet' | '4bet';
+
+/**
+ * Pre-flop ranges per situation and position, read from the file named by the `preflop_ranges`
+ * setting (ranges/preflop.txt by default). See that file for the format.
+ */
+export class PreflopCharts {
+  private static instance: PreflopCharts;
+  private static readonly SITUATIONS: ChartSituation[] = ['open', 'call', '3bet', '4bet'];
+  private static readonly POSITIONS: (Position | '*')[] = ['UTG', 'MP', 'HJ', 'CO', 'BTN', 'SB', 'BB', '*'];
+  private readonly ROOT = path.join(__dirname, '..');
+  private ranges: Map<string, Set<string>> | null = null;
+  private loadFailed = false;
+
+  private constructor() {}
+
+  public static getInstance(): PreflopCharts {
+    if (!PreflopCharts.instance) {
+      PreflopCharts.instance = new PreflopCharts();
+    }
+    return PreflopCharts.instance;
+  }
+
+  /**
+   * False when the range file is missing or invalid, in which case pre-flop play falls back to the strategy.
+   */
+  public isAvailable(): boolean {
+    return this.load() !== null;
+  }
+
+  public contains(situation: ChartSituation, position: Position, handClass: string): boolean {
+    const ranges = this.load();
+    if (!ranges) return false;
+    const range = ranges.get(`${situation} ${position}`) || ranges.get(`${situation} *`);
+    return range ? range.has(handClass) : false;
+  }
+
+  public static parse(text: string): Map<string, Set<string>> {
+    const ranges = new Map<string, Set<string>>();
+
+    text.split('\n').forEach((rawLine, index) => {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      if (line === '') return;
+
+      const match = line.match(/^(\S+)\s+(\S+)\s*:(.*)$/);
+      if (!match) {
+        throw new Error(`Line ${index + 1}: expected "<situation> <position>: <range>"`);
+      }
+      const [, situation, position, notation] = match;
+      if (!this.SITUATIONS.includes(situation as ChartSituation)) {
+        throw new Error(`Line ${index + 1}: unknown situation "${situation}"`);
+      }
+      if (!this.POSITIONS.includes(position as Position)) {
+        throw new Error(`Line ${index + 1}: unknown position "${position}"`);
+      }
+
+      try {
+        ranges.set(`${situation} ${position}`, RangeNotation.parse(notation));
+      } catch (error) {
+        throw new Error(`Line ${index + 1}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    return ranges;
+  }
+
+  private load(): Map<string, Set<string>> | null {
+    if (this.ranges || this.loadFailed) return this.ranges;
+
+    const file = path.resolve(this.ROOT, Config.get('preflop_ranges') || 'ranges/preflop.txt');
+    try {
+      this.ranges = PreflopCharts.parse(fs.readFileSync(file, 'utf8'));
+      logger.info('Loaded pre-flop ranges', { file, ranges: this.ranges.size });
+    } catch (error) {
+      this.loadFailed = true;
+      logger.error('Error loading pre-flop ranges', error, { file });
+    }
+    return this.ranges;
+  }
+}
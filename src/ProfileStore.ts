@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OpponentProfile } from './PlayerTracker';
+import { Logger } from './Logger';
+
+const logger = new Logger('ProfileStore');
+
+interface ProfileFile {
+  savedAt: string;
+  profiles: OpponentProfile[];
+}
+
+export class ProfileStore {
+  private static instance: ProfileStore;
+  private readonly FILE_PATH = process.env['PROFILE_STORE_PATH'] || 'tmp/opponent-profiles.json';
+  // Saves are chained so that two flushes never write the temporary file at the same time
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  public static getInstance(): ProfileStore {
+    if (!ProfileStore.instance) {
+      ProfileStore.instance = new ProfileStore();
+    }
+    return ProfileStore.instance;
+  }
+
+  // Runs once at startup, before the first request, so reading synchronously is fine
+  public load(): OpponentProfile[] {
+    try {
+      const file: ProfileFile = JSON.parse(fs.readFileSync(this.FILE_PATH, 'utf8'));
+      return Array.isArray(file.profiles) ? file.profiles : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Error loading opponent profiles', error, { file: this.FILE_PATH });
+      }
+      return [];
+    }
+  }
+
+  public save(profiles: OpponentProfile[]): Promise<void> {
+    const file: ProfileFile = { savedAt: new Date().toISOString(), profiles };
+    const contents = JSON.stringify(file);
+
+    this.saveQueue = this.saveQueue
+      .catch(() => {})
+      .then(() => this.write(contents));
+    return this.saveQueue;
+  }
+
+  private async write(contents: string): Promise<void> {
+    // Write to a temporary file first so that a crash mid-write never leaves a truncated store
+    const temporaryPath = `${this.FILE_PATH}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.FILE_PATH), { recursive: true });
+    await fs.promises.writeFile(temporaryPath, contents);
+    await fs.promises.rename(temporaryPath, this.FILE_PATH);
+  }
+}
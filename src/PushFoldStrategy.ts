@@ -0,0 +1,103 @@
+import { BetAction } from './BetLegalizer';
+import { EquityCalculator } from './EquityCalculator';
+import { Random } from './Random';
+import { StartingHands } from './StartingHands';
+import { DecisionContext, Strategy } from './Strategy';
+import { TournamentStage } from './TournamentStage';
+
+// Share of starting hands to play, for stacks up to `maxBB` effective big blinds
+interface ChartRow {
+  maxBB: number;
+  ranges: number[]; // Indexed by the number of players still to act behind us, the last entry covers more
+}
+
+/**
+ * Pre-flop all-in or fold play for short stacks, from push and call charts in the spirit of the
+ * Nash equilibrium solutions. Near the money, marginal all-ins are checked against the ICM.
+ */
+export class PushFoldStrategy implements Strategy {
+  public readonly name = 'push-fold';
+
+  // Opening all-in when nobody has raised yet, by players left to act: 1 (only the big blind), 2, 3, 4, 5+
+  private static readonly PUSH_CHART: ChartRow[] = [
+    { maxBB: 3, ranges: [1.0, 0.85, 0.7, 0.6, 0.5] },
+    { maxBB: 5, ranges: [0.75, 0.55, 0.42, 0.34, 0.28] },
+    { maxBB: 8, ranges: [0.62, 0.42, 0.3, 0.24, 0.19] },
+    { maxBB: 10, ranges: [0.55, 0.36, 0.25, 0.2, 0.16] },
+    { maxBB: 15, ranges: [0.45, 0.28, 0.2, 0.15, 0.12] },
+    { maxBB: Infinity, ranges: [0.35, 0.22, 0.15, 0.12, 0.1] }
+  ];
+
+  // Calling (or re-shoving over) a raise, by players left to act behind us: 0, 1, 2+
+  private static readonly CALL_CHART: ChartRow[] = [
+    { maxBB: 3, ranges: [0.7, 0.5, 0.4] },
+    { maxBB: 5, ranges: [0.45, 0.33, 0.25] },
+    { maxBB: 8, ranges: [0.33, 0.24, 0.18] },
+    { maxBB: 10, ranges: [0.28, 0.2, 0.15] },
+    { maxBB: 15, ranges: [0.22, 0.16, 0.12] },
+    { maxBB: Infinity, ranges: [0.15, 0.11, 0.09] }
+  ];
+
+  // Hands in the weakest quarter of a range are close enough to break-even to check against the ICM
+  private static readonly MARGINAL_SHARE = 0.75;
+  // Our equity is simulated against a random hand, which flatters us against a calling range
+  private static readonly CALLED_EQUITY_DISCOUNT = 0.85;
+  private static readonly EQUITY_BUDGET_MS = 50;
+  private static readonly SEEDED_EQUITY_SAMPLES = 1000; // Fits in the budget with room to spare
+
+  public decide(context: DecisionContext): BetAction {
+    const { gameState } = context;
+    const stage = TournamentStage.analyze(gameState);
+    const handClass = StartingHands.handClass(gameState.ourPlayer().holeCards);
+    const percentile = StartingHands.percentile(handClass);
+    const behind = gameState.playersLeftToAct().length;
+    const raised = gameState.currentBuyIn > TournamentStage.bigBlind(gameState);
+
+    const range = raised
+      ? PushFoldStrategy.chartRange(PushFoldStrategy.CALL_CHART, stage.effectiveStackBB, behind)
+      : PushFoldStrategy.chartRange(PushFoldStrategy.PUSH_CHART, stage.effectiveStackBB, behind - 1);
+
+    context.explain(`Push/fold: ${handClass} (top ${(percentile * 100).toFixed(1)}%), ` +
+                   `${stage.effectiveStackBB.toFixed(1)} BB effective, M ${stage.mRatio.toFixed(1)}, ` +
+                   `${raised ? 'call' : 'push'} range ${(range * 100).toFixed(0)}%, ${behind} to act behind`);
+
+    const notAllIn: BetAction = gameState.toCall() === 0 ? { type: 'check' } : { type: 'fold' };
+    if (percentile > range) return notAllIn;
+
+    if (stage.nearTheMoney && percentile > range * PushFoldStrategy.MARGINAL_SHARE) {
+      return this.icmAllInWorthIt(context, raised, behind) ? { type: 'all-in' } : notAllIn;
+    }
+    return { type: 'all-in' };
+  }
+
+  private icmAllInWorthIt(context: DecisionContext, raised: boolean, behind: number): boolean {
+    const { gameState, opponents } = context;
+    if (opponents.length === 0) return true;
+
+    // The opponent we are most likely to play the pot against: the raiser, or else the biggest stack
+    const opponent = opponents.reduce((best, player) =>
+      (raised ? player.bet > best.bet : player.stack > best.stack) ? player : best);
+
+    const equity = EquityCalculator.calculateEquity(
+      gameState.ourPlayer().holeCards, gameState.communityCards, 1, PushFoldStrategy.EQUITY_BUDGET_MS,
+      context.equityRandom, Random.seededSampleCount(PushFoldStrategy.SEEDED_EQUITY_SAMPLES)
+    );
+    const winProbability = equity.equity * PushFoldStrategy.CALLED_EQUITY_DISCOUNT;
+
+    // Everyone behind folds unless one of them holds a calling hand
+    const callRange = PushFoldStrategy.chartRange(
+      PushFoldStrategy.CALL_CHART, TournamentStage.effectiveStack(gameState) / TournamentStage.bigBlind(gameState), 0
+    );
+    const foldProbability = raised ? 0 : Math.pow(1 - callRange, behind);
+
+    const icm = TournamentStage.allInIcm(gameState, opponent, winProbability, foldProbability);
+    context.explain(`ICM check: fold ${(icm.fold * 100).toFixed(2)}%, all-in ${(icm.allIn * 100).toFixed(2)}% of the prize pool ` +
+                   `(win ${(winProbability * 100).toFixed(0)}% when called, fold equity ${(foldProbability * 100).toFixed(0)}%)`);
+    return icm.allIn > icm.fold;
+  }
+
+  private static chartRange(chart: ChartRow[], effectiveBB: number, column: number): number {
+    const row = chart.find(r => effectiveBB <= r.maxBB) || chart[chart.length - 1];
+    return row.ranges[Math.min(Math.max(column, 0), row.ranges.length - 1)];
+  }
+}
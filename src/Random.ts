@@ -0,0 +1,121 @@
+import { Config } from './Config';
+import { GameState } from './GameState';
+
+/**
+ * A source of random numbers in [0, 1), like Math.random().
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+// Gives the random source for one decision
+export type RandomProvider = (gameState: GameState) => RandomSource;
+
+// Weights of the branches of a mixed strategy, e.g. { bigRaise: 0.6, hugeRaise: 0.2, call: 0.2 }
+export type MixedStrategy<Branch extends string> = { [branch in Branch]?: number };
+
+export interface SampledBranch {
+  label: string; // Which mix was sampled, e.g. "strong hand heads-up"
+  weights: { [branch: string]: number };
+  roll: number;
+  branch: string;
+}
+
+/**
+ * Small, fast seeded generator (mulberry32), so that the same seed always plays the same way.
+ */
+export class SeededRandom implements RandomSource {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  public static fromKey(key: string): SeededRandom {
+    return new SeededRandom(Random.hash(key));
+  }
+
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+}
+
+/**
+ * Replays the given numbers in turn, for pinning down a decision in tests.
+ */
+export class FixedRandom implements RandomSource {
+  private index = 0;
+
+  constructor(private readonly values: number[]) {
+    if (values.length === 0) throw new Error('FixedRandom needs at least one value');
+  }
+
+  public next(): number {
+    return this.values[this.index++ % this.values.length];
+  }
+}
+
+export class Random {
+  /**
+   * The production provider: every decision is seeded from its game id, round and bet index, so a
+   * replayed payload gets the same answer. Set `rng_seed` to keep opponents from working out the
+   * sequence from the public game ids; it also fixes the size of the equity simulations.
+   */
+  public static perDecision: RandomProvider = gameState => SeededRandom.fromKey(Random.decisionKey(gameState));
+
+  /**
+   * A second stream per decision for the equity simulations. How many deals they get through depends
+   * on the time budget, so drawing them from the decision's own source would shift every later roll.
+   */
+  public static equityPerDecision: RandomProvider = gameState =>
+    SeededRandom.fromKey(`${Random.decisionKey(gameState)}:equity`);
+
+  /**
+   * How many deals an equity simulation should run when `rng_seed` is set (`equity_samples`, or
+   * `defaultCount`): a fixed count keeps a seeded decision from depending on how fast the machine is.
+   * Undefined without a seed, when the time budget alone decides.
+   */
+  public static seededSampleCount(defaultCount: number): number | undefined {
+    return Config.get('rng_seed') ? Config.getNumber('equity_samples', defaultCount) : undefined;
+  }
+
+  private static decisionKey(gameState: GameState): string {
+    return `${Config.get('rng_seed') || ''}:${gameState.gameId}:${gameState.round}:${gameState.betIndex}`;
+  }
+
+  // FNV-1a hash of a string, as an unsigned 32-bit integer
+  public static hash(key: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Picks a branch of a mixed strategy with probability proportional to its weight.
+   */
+  public static sample<Branch extends string>(random: RandomSource, label: string, mix: MixedStrategy<Branch>): SampledBranch & { branch: Branch } {
+    const entries = (Object.entries(mix) as [Branch, number][]).filter(([, weight]) => weight > 0);
+    if (entries.length === 0) throw new Error(`Mixed strategy "${label}" has no branch with a positive weight`);
+
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    const roll = random.next();
+    let remaining = roll * total;
+    let branch = entries[entries.length - 1][0];
+    for (const [name, weight] of entries) {
+      if (remaining < weight) {
+        branch = name;
+        break;
+      }
+      remaining -= weight;
+    }
+
+    return { label, weights: Object.fromEntries(entries), roll, branch };
+  }
+}
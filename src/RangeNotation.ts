@@ -0,0 +1,93 @@
+import { StartingHands } from './StartingHands';
+
+interface ParsedHand {
+  pair: boolean;
+  high: number; // Index of the higher card in StartingHands.RANK_CHARS
+  low: number;
+  suffix: '' | 's' | 'o';
+}
+
+/**
+ * Parses standard range notation into starting hand classes, e.g. "22+, A2s+, KTo+, QJ, 76s, T9s-T7s".
+ *
+ * - "77" is one pair, "77+" that pair and every higher one, "99-66" the pairs in between.
+ * - "AKs" / "AKo" are the suited or offsuit hand, "AK" both.
+ * - "A2s+" raises the second card up to one below the first (A2s..AKs), "KTs-K7s" covers the kickers
+ *   in between.
+ */
+export class RangeNotation {
+  public static parse(notation: string): Set<string> {
+    const hands = new Set<string>();
+    notation.split(',')
+      .map(token => token.trim())
+      .filter(token => token !== '')
+      .forEach(token => this.parseToken(token).forEach(hand => hands.add(hand)));
+    return hands;
+  }
+
+  private static parseToken(token: string): string[] {
+    const normalized = token.replace(/\s+/g, '');
+
+    const dash = normalized.split('-');
+    if (dash.length === 2) {
+      return this.parseSpan(token, this.parseHand(token, dash[0]), this.parseHand(token, dash[1]));
+    }
+    if (dash.length > 2) {
+      throw new Error(`Invalid range "${token}"`);
+    }
+
+    if (normalized.endsWith('+')) {
+      const hand = this.parseHand(token, normalized.slice(0, -1));
+      const top = hand.pair ? { ...hand, high: 0, low: 0 } : { ...hand, low: hand.high + 1 };
+      return this.parseSpan(token, top, hand);
+    }
+
+    return this.expand(this.parseHand(token, normalized));
+  }
+
+  // `from` and `to` are inclusive and may come in either order
+  private static parseSpan(token: string, from: ParsedHand, to: ParsedHand): string[] {
+    if (from.pair !== to.pair || from.suffix !== to.suffix || (!from.pair && from.high !== to.high)) {
+      throw new Error(`Range "${token}" must keep the first card and suitedness the same`);
+    }
+
+    const first = Math.min(from.pair ? from.high : from.low, to.pair ? to.high : to.low);
+    const last = Math.max(from.pair ? from.high : from.low, to.pair ? to.high : to.low);
+    const hands: string[] = [];
+    for (let index = first; index <= last; index++) {
+      hands.push(...this.expand(from.pair
+        ? { ...from, high: index, low: index }
+        : { ...from, low: index }));
+    }
+    return hands;
+  }
+
+  private static parseHand(token: string, text: string): ParsedHand {
+    const match = text.match(/^([AKQJT2-9])([AKQJT2-9])([so]?)$/i);
+    if (!match) {
+      throw new Error(`Invalid hand "${text}" in range "${token}"`);
+    }
+
+    // Indices into StartingHands.RANK_CHARS, so lower means a higher card
+    const first = StartingHands.RANK_CHARS.indexOf(match[1].toUpperCase());
+    const second = StartingHands.RANK_CHARS.indexOf(match[2].toUpperCase());
+    const suffix = match[3].toLowerCase() as '' | 's' | 'o';
+    const pair = first === second;
+    if (pair && suffix !== '') {
+      throw new Error(`A pair can't be suited or offsuit in range "${token}"`);
+    }
+
+    return {
+      pair,
+      high: Math.min(first, second),
+      low: Math.max(first, second),
+      suffix
+    };
+  }
+
+  private static expand(hand: ParsedHand): string[] {
+    const name = StartingHands.RANK_CHARS[hand.high] + StartingHands.RANK_CHARS[hand.low];
+    if (hand.pair) return [name];
+    return hand.suffix === '' ? [name + 's', name + 'o'] : [name + hand.suffix];
+  }
+}
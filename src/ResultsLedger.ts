@@ -0,0 +1,240 @@
+import { GameSessions } from './GameSession';
+import { GameState } from './GameState';
+import { Logger } from './Logger';
+import { TournamentStage } from './TournamentStage';
+
+const logger = new Logger('ResultsLedger');
+
+export interface HandResult {
+  time: string; // When the hand was settled
+  gameId: string;
+  round: number;
+  bigBlind: number;
+  startChips: number; // Our chips when the hand started
+  endChips: number; // Our chips after the pot was awarded
+  net: number;
+  strategy: string | null; // Strategy behind our last decision in the hand, null if we never acted
+  branch: string | null; // Its branch, e.g. "default:aggressive heads-up"
+}
+
+export interface BranchResult {
+  name: string;
+  hands: number;
+  net: number;
+  bbPer100: number; // Big blinds won per 100 hands
+}
+
+export interface GameResult {
+  gameId: string;
+  hands: number;
+  net: number;
+  place: number | null; // Null until we bust or everyone else does
+}
+
+export interface ResultsSummary {
+  hands: number;
+  net: number;
+  bbPer100: number;
+  byStrategy: BranchResult[];
+  byBranch: BranchResult[];
+  games: GameResult[];
+}
+
+interface OpenHand {
+  round: number;
+  bigBlind: number;
+  startChips: number | null; // Unknown when we first saw the game in the middle of a hand
+  strategy: string | null;
+  branch: string | null;
+}
+
+interface GameLedger {
+  chips: number | null; // Our chips after the last settled hand
+  hand: OpenHand | null;
+  place: number | null;
+}
+
+/**
+ * Our own results, hand by hand: chips before and after each hand from the bet request and showdown
+ * payloads, and which strategy branch made the decisions. A hand is credited to the branch of our
+ * last decision in it, the one that committed us to the outcome, so the per-branch rows add up to
+ * the totals.
+ */
+export class ResultsLedger {
+  private static instance: ResultsLedger;
+  private readonly MAX_HANDS = 50000;
+  private hands: HandResult[] = [];
+  private games: Map<string, GameLedger> = new Map();
+  private places: Map<string, number> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): ResultsLedger {
+    if (!ResultsLedger.instance) {
+      ResultsLedger.instance = new ResultsLedger();
+    }
+    return ResultsLedger.instance;
+  }
+
+  public observeBetRequest(gameState: GameState): void {
+    this.forgetEndedGames(gameState.gameId);
+    const game = this.gameFor(gameState.gameId);
+    if (game.hand?.round === gameState.round) return;
+
+    const ours = gameState.ourPlayer();
+    if (game.hand) {
+      // The showdown of the previous hand never arrived; before the flop our stack plus blinds is
+      // what we finished it with
+      const settled = gameState.pokerRound() === 'pre-flop' ? ours.stack + ours.bet : null;
+      this.settle(gameState.gameId, game, settled);
+    }
+
+    const startChips = game.chips ?? (gameState.pokerRound() === 'pre-flop' ? ours.stack + ours.bet : null);
+    game.hand = this.openHand(gameState, startChips);
+  }
+
+  /**
+   * Notes the strategy and branch behind one of our decisions in the current hand; a later decision
+   * replaces it.
+   */
+  public recordDecision(gameState: GameState, strategy: string, branch: string | null): void {
+    const hand = this.games.get(gameState.gameId)?.hand;
+    if (!hand || hand.round !== gameState.round) return;
+
+    hand.strategy = strategy;
+    hand.branch = branch ? `${strategy}:${branch}` : strategy;
+  }
+
+  public observeShowdown(gameState: GameState): void {
+    const game = this.gameFor(gameState.gameId);
+    if (game.hand?.round !== gameState.round) {
+      // We never had to act in this hand, e.g. everyone folded to our big blind
+      if (game.hand) this.settle(gameState.gameId, game, null);
+      game.hand = this.openHand(gameState, game.chips);
+    }
+
+    const ours = gameState.ourPlayer();
+    this.settle(gameState.gameId, game, ours.stack);
+
+    const othersWithChips = gameState.players.filter(player => player.id !== ours.id && player.stack > 0).length;
+    if (ours.stack === 0 || othersWithChips === 0) {
+      game.place = ours.stack === 0 ? othersWithChips + 1 : 1;
+      this.places.set(gameState.gameId, game.place);
+      logger.info('Game finished', { gameId: gameState.gameId, place: game.place });
+    }
+  }
+
+  public getHands(): HandResult[] {
+    return [...this.hands];
+  }
+
+  public summary(): ResultsSummary {
+    const groups = (keyOf: (hand: HandResult) => string | null) => {
+      const byKey = new Map<string, HandResult[]>();
+      this.hands.forEach(hand => {
+        const key = keyOf(hand) ?? 'no decision';
+        if (!byKey.has(key)) byKey.set(key, []);
+        byKey.get(key)!.push(hand);
+      });
+      return Array.from(byKey.entries())
+        .map(([name, hands]) => ({ name, ...ResultsLedger.totals(hands) }))
+        .sort((a, b) => b.hands - a.hands);
+    };
+
+    const gameIds = Array.from(new Set(this.hands.map(hand => hand.gameId)));
+    return {
+      ...ResultsLedger.totals(this.hands),
+      byStrategy: groups(hand => hand.strategy),
+      byBranch: groups(hand => hand.branch),
+      games: gameIds.map(gameId => {
+        const hands = this.hands.filter(hand => hand.gameId === gameId);
+        const { net } = ResultsLedger.totals(hands);
+        return { gameId, hands: hands.length, net, place: this.places.get(gameId) ?? null };
+      })
+    };
+  }
+
+  /**
+   * One line per hand, the strategy and branch left empty for hands we never acted in.
+   */
+  public toCsv(): string {
+    const header = 'time,game_id,round,big_blind,start_chips,end_chips,net,net_bb,strategy,branch';
+    const rows = this.hands.map(hand => [
+      hand.time,
+      hand.gameId,
+      hand.round,
+      hand.bigBlind,
+      hand.startChips,
+      hand.endChips,
+      hand.net,
+      (hand.net / hand.bigBlind).toFixed(2),
+      hand.strategy ?? '',
+      hand.branch ?? ''
+    ].map(value => ResultsLedger.csvField(String(value))).join(','));
+    return [header, ...rows].join('\n') + '\n';
+  }
+
+  public toJson(): string {
+    return JSON.stringify({ summary: this.summary(), hands: this.hands }, null, 2);
+  }
+
+  private openHand(gameState: GameState, startChips: number | null): OpenHand {
+    return {
+      round: gameState.round,
+      bigBlind: TournamentStage.bigBlind(gameState),
+      startChips,
+      strategy: null,
+      branch: null
+    };
+  }
+
+  private settle(gameId: string, game: GameLedger, endChips: number | null): void {
+    const hand = game.hand;
+    game.hand = null;
+    game.chips = endChips;
+    if (!hand || hand.startChips === null || endChips === null) {
+      logger.debug('Skipping hand without known chip counts', { gameId, round: hand?.round });
+      return;
+    }
+
+    this.hands.push({
+      time: new Date().toISOString(),
+      gameId,
+      round: hand.round,
+      bigBlind: hand.bigBlind,
+      startChips: hand.startChips,
+      endChips,
+      net: endChips - hand.startChips,
+      strategy: hand.strategy,
+      branch: hand.branch
+    });
+    if (this.hands.length > this.MAX_HANDS) this.hands.shift();
+  }
+
+  private gameFor(gameId: string): GameLedger {
+    let game = this.games.get(gameId);
+    if (!game) {
+      game = { chips: null, hand: null, place: null };
+      this.games.set(gameId, game);
+    }
+    return game;
+  }
+
+  // Drops the open hands of games whose session has ended
+  private forgetEndedGames(currentGameId: string): void {
+    const sessions = GameSessions.getInstance();
+    Array.from(this.games.keys())
+      .filter(gameId => gameId !== currentGameId && !sessions.find(gameId))
+      .forEach(gameId => this.games.delete(gameId));
+  }
+
+  private static totals(hands: HandResult[]): { hands: number, net: number, bbPer100: number } {
+    const net = hands.reduce((sum, hand) => sum + hand.net, 0);
+    const bigBlinds = hands.reduce((sum, hand) => sum + hand.net / hand.bigBlind, 0);
+    return { hands: hands.length, net, bbPer100: hands.length > 0 ? bigBlinds / hands.length * 100 : 0 };
+  }
+
+  private static csvField(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
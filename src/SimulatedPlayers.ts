@@ -0,0 +1,82 @@
+import { GameState, GameStateProps } from './GameState';
+import { HandEvaluator } from './HandEvaluator';
+import { PokerBot } from './PokerBot';
+import { SimulatedPlayer } from './TableSimulator';
+
+/**
+ * Plays our PokerBot in the simulator through the same betRequest/showdown entry points as index.ts.
+ */
+export class PokerBotPlayer implements SimulatedPlayer {
+  public version = PokerBot.VERSION;
+
+  constructor(public name: string, private bot: PokerBot) {}
+
+  public betRequest(gameState: GameStateProps): Promise<number> {
+    // Only the first answer counts, just like the first HTTP response does in a live game
+    return new Promise(resolve => this.bot.betRequest(new GameState(gameState), resolve));
+  }
+
+  public showdown(gameState: GameStateProps): void {
+    this.bot.showdown(new GameState(gameState));
+  }
+}
+
+abstract class ReferenceBot implements SimulatedPlayer {
+  public version = 'Reference bot';
+
+  constructor(public name: string) {}
+
+  public betRequest(gameState: GameStateProps): Promise<number> {
+    return Promise.resolve(this.decide(new GameState(gameState)));
+  }
+
+  public showdown(): void {}
+
+  protected abstract decide(gameState: GameState): number;
+}
+
+export class AlwaysCallBot extends ReferenceBot {
+  protected decide(gameState: GameState): number {
+    return gameState.toCall();
+  }
+}
+
+export class AlwaysRaiseBot extends ReferenceBot {
+  protected decide(gameState: GameState): number {
+    return gameState.toCall() + gameState.minimumRaise;
+  }
+}
+
+// Raises premium hands pre-flop, then only continues with a pair or better
+export class TightBot extends ReferenceBot {
+  protected decide(gameState: GameState): number {
+    const handStrength = HandEvaluator.evaluateHandStrength(
+      gameState.ourPlayer().holeCards,
+      gameState.communityCards
+    );
+    const raise = gameState.toCall() + gameState.minimumRaise;
+
+    if (gameState.pokerRound() === 'pre-flop') {
+      return handStrength >= 0.45 ? raise : 0;
+    }
+    if (handStrength >= 0.6) return raise;
+    if (handStrength >= 0.42) return gameState.toCall();
+    return 0;
+  }
+}
+
+export class RandomBot extends ReferenceBot {
+  protected decide(gameState: GameState): number {
+    const choice = Math.random();
+    if (choice < 1 / 3) return 0;
+    if (choice < 2 / 3) return gameState.toCall();
+    return gameState.toCall() + gameState.minimumRaise * (1 + Math.floor(Math.random() * 3));
+  }
+}
+
+export const REFERENCE_BOTS: { [type: string]: new (name: string) => SimulatedPlayer } = {
+  call: AlwaysCallBot,
+  raise: AlwaysRaiseBot,
+  tight: TightBot,
+  random: RandomBot
+};
@@ -0,0 +1,117 @@
+import { CardProps } from './Card';
+import { HandEvaluator } from './HandEvaluator';
+
+/**
+ * The 169 distinct starting hands ("AA", "AKs", "72o", ...) and how they rank against each other.
+ *
+ * Hands are ordered by the Chen formula, with ties broken by the higher cards and then by suitedness.
+ * The percentile of a hand is the share of all 1326 two-card combinations that rank at least as high,
+ * so "in the top 20%" means a percentile of 0.2 or less.
+ */
+export class StartingHands {
+  // Rank characters from the highest down, as used in hand class names
+  public static readonly RANK_CHARS = ['A', 'K', 'Q', 'J', 'T', '9', '8', '7', '6', '5', '4', '3', '2'];
+  private static readonly TOTAL_COMBOS = 1326;
+  private static percentiles: Map<string, number> | null = null;
+
+  public static handClass(holeCards: CardProps[]): string {
+    if (holeCards.length !== 2) {
+      throw new Error(`A starting hand has 2 cards, got ${holeCards.length}`);
+    }
+
+    const [high, low] = [...holeCards].sort((a, b) => HandEvaluator.rankValue(b.rank) - HandEvaluator.rankValue(a.rank));
+    const highChar = this.rankChar(high.rank);
+    const lowChar = this.rankChar(low.rank);
+    if (highChar === lowChar) return highChar + lowChar;
+    return highChar + lowChar + (high.suit === low.suit ? 's' : 'o');
+  }
+
+  public static allClasses(): string[] {
+    const classes: string[] = [];
+    this.RANK_CHARS.forEach((high, i) => {
+      this.RANK_CHARS.forEach((low, j) => {
+        if (i === j) classes.push(high + low);
+        else if (i < j) classes.push(high + low + 's', high + low + 'o');
+      });
+    });
+    return classes;
+  }
+
+  public static combos(handClass: string): number {
+    if (handClass.length === 2) return 6;
+    return handClass[2] === 's' ? 4 : 12;
+  }
+
+  public static percentile(handClass: string): number {
+    const percentile = this.percentileTable().get(handClass);
+    if (percentile === undefined) {
+      throw new Error(`Unknown starting hand "${handClass}"`);
+    }
+    return percentile;
+  }
+
+  public static inTopRange(handClass: string, fraction: number): boolean {
+    return this.percentile(handClass) <= fraction;
+  }
+
+  /**
+   * Bill Chen's quick scoring of a starting hand, from -1 (72o) to 20 (AA).
+   */
+  public static chenScore(handClass: string): number {
+    const high = this.chenValue(handClass[0]);
+    const highRank = this.charValue(handClass[0]);
+    const lowRank = this.charValue(handClass[1]);
+
+    if (highRank === lowRank) {
+      return Math.max(5, high * 2);
+    }
+
+    let score = high;
+    if (handClass[2] === 's') score += 2;
+
+    const gap = highRank - lowRank - 1;
+    score -= gap === 0 ? 0 : gap === 1 ? 1 : gap === 2 ? 2 : gap === 3 ? 4 : 5;
+
+    // Connected and one-gapped hands below a queen can make the top end of a straight
+    if (gap <= 1 && highRank < 12) score += 1;
+
+    return Math.ceil(score);
+  }
+
+  private static percentileTable(): Map<string, number> {
+    if (this.percentiles) return this.percentiles;
+
+    const ordered = this.allClasses().sort((a, b) =>
+      this.chenScore(b) - this.chenScore(a) ||
+      this.charValue(b[0]) - this.charValue(a[0]) ||
+      this.charValue(b[1]) - this.charValue(a[1]) ||
+      this.combos(a) - this.combos(b) // Pairs and suited hands first
+    );
+
+    this.percentiles = new Map();
+    let cumulative = 0;
+    for (const handClass of ordered) {
+      cumulative += this.combos(handClass);
+      this.percentiles.set(handClass, cumulative / this.TOTAL_COMBOS);
+    }
+    return this.percentiles;
+  }
+
+  private static rankChar(rank: string): string {
+    return rank === '10' ? 'T' : rank;
+  }
+
+  private static charValue(char: string): number {
+    return 14 - this.RANK_CHARS.indexOf(char);
+  }
+
+  private static chenValue(char: string): number {
+    switch (char) {
+      case 'A': return 10;
+      case 'K': return 8;
+      case 'Q': return 7;
+      case 'J': return 6;
+      default: return this.charValue(char) / 2;
+    }
+  }
+}
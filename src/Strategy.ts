@@ -0,0 +1,48 @@
+import { BetAction } from './BetLegalizer';
+import { GameState } from './GameState';
+import { Player } from './Player';
+import { EquityResult } from './EquityCalculator';
+import { PlayerTracker } from './PlayerTracker';
+import { TournamentDataService } from './TournamentDataService';
+import { MixedStrategy, RandomSource } from './Random';
+import { SizingMenu } from './BetSizing';
+
+export interface ContinuationBet {
+  action: BetAction; // Sized for the board texture
+  frequency: number; // How often to make it without a hand worth betting for value
+}
+
+export interface BetAmounts {
+  fold: BetAction;
+  call: BetAction;
+  smallRaise: BetAction;
+  bigRaise: BetAction;
+  hugeRaise: BetAction;
+  continuationBet: ContinuationBet | null; // Only when we raised pre-flop and are first to bet on the flop
+  sizing: SizingMenu; // Every size worked out from the stack-to-pot ratio, for strategies that pick their own
+}
+
+export interface DecisionContext {
+  gameState: GameState;
+  handStrength: number; // 0-1, from equity when the simulation ran and the static evaluation otherwise
+  equity: EquityResult | null;
+  opponents: Player[]; // Opponents still in the hand
+  isHeadsUp: boolean;
+  averageOpponentAggression: number;
+  betAmounts: BetAmounts;
+  playerTracker: PlayerTracker; // For per-opponent statistics
+  tournamentDataService: TournamentDataService;
+  explain(reason: string): void; // Logs why the strategy acts as it does and keeps it with the decision
+  branch(name: string): void; // Names the part of the strategy that decided, so results can be split by it
+  random: RandomSource; // Use instead of Math.random() so that decisions can be reproduced
+  equityRandom: RandomSource; // For equity simulations, kept apart so they can't shift the rolls of `random`
+  choose<Branch extends string>(label: string, mix: MixedStrategy<Branch>): Branch; // Samples a mix and records the branch taken
+}
+
+// The bet sizes a mixed strategy can pick between
+export type BetOption = Exclude<keyof BetAmounts, 'continuationBet' | 'sizing'>;
+
+export interface Strategy {
+  name: string;
+  decide(context: DecisionContext): BetAction;
+}
@@ -0,0 +1,97 @@
+import { Config } from './Config';
+import { DefaultStrategy } from './DefaultStrategy';
+import { EvStrategy } from './EvStrategy';
+import { PreflopChartStrategy } from './PreflopChartStrategy';
+import { PushFoldStrategy } from './PushFoldStrategy';
+import { Strategy } from './Strategy';
+import { Random } from './Random';
+
+export type StrategyFactory = () => Strategy;
+
+/**
+ * Knows every available strategy and picks the one to play in a game.
+ *
+ * The active strategy comes from the `strategy` setting (env STRATEGY or config.yml). When `strategy_b`
+ * is set as well, games are split between the two by a hash of the game id, so every decision within
+ * one game uses the same strategy and the split stays the same across restarts. `strategy_b_share` is
+ * the fraction of games that go to strategy B.
+ */
+export class StrategyRegistry {
+  private static instance: StrategyRegistry;
+  private static readonly DEFAULT_STRATEGY = 'default';
+  private factories: Map<string, StrategyFactory> = new Map();
+  private strategies: Map<string, Strategy> = new Map();
+
+  private constructor() {
+    this.register('default', () => new DefaultStrategy());
+    this.register('ev', () => new EvStrategy());
+    this.register('preflop-chart', () => new PreflopChartStrategy());
+    this.register('push-fold', () => new PushFoldStrategy());
+  }
+
+  public static getInstance(): StrategyRegistry {
+    if (!StrategyRegistry.instance) {
+      StrategyRegistry.instance = new StrategyRegistry();
+    }
+    return StrategyRegistry.instance;
+  }
+
+  public register(name: string, factory: StrategyFactory): void {
+    this.factories.set(name, factory);
+    this.strategies.delete(name);
+  }
+
+  public names(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  public get(name: string): Strategy {
+    let strategy = this.strategies.get(name);
+    if (!strategy) {
+      const factory = this.factories.get(name);
+      if (!factory) {
+        throw new Error(`Unknown strategy "${name}", expected one of: ${this.names().join(', ')}`);
+      }
+      strategy = factory();
+      this.strategies.set(name, strategy);
+    }
+    return strategy;
+  }
+
+  /**
+   * The strategy to play in the given game.
+   */
+  public select(gameId: string): Strategy {
+    const strategyB = this.strategyBName();
+    if (strategyB && StrategyRegistry.bucket(gameId) < this.strategyBShare()) {
+      return this.get(strategyB);
+    }
+    return this.get(this.strategyAName());
+  }
+
+  /**
+   * Human readable summary of the configured strategies, e.g. "default" or "default / ev 50%".
+   */
+  public describe(): string {
+    const strategyB = this.strategyBName();
+    if (!strategyB) return this.strategyAName();
+    return `${this.strategyAName()} / ${strategyB} ${Math.round(this.strategyBShare() * 100)}%`;
+  }
+
+  private strategyAName(): string {
+    return Config.get('strategy') || StrategyRegistry.DEFAULT_STRATEGY;
+  }
+
+  private strategyBName(): string | undefined {
+    return Config.get('strategy_b');
+  }
+
+  private strategyBShare(): number {
+    return Math.min(1, Math.max(0, Config.getNumber('strategy_b_share', 0.5)));
+  }
+
+  // Hash of the game id, mapped to [0, 1)
+  private static bucket(gameId: string): number {
+    return Random.hash(gameId) / 0x100000000;
+  }
+}
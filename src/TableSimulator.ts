@@ -0,0 +1,357 @@
+import { CardProps } from './Card';
+import { GameStateProps } from './GameState';
+import { PlayerProps } from './Player';
+import { HandEvaluator, HandRank } from './HandEvaluator';
+
+export interface SimulatedPlayer {
+  name: string;
+  version: string;
+  betRequest(gameState: GameStateProps): Promise<number>;
+  showdown(gameState: GameStateProps): void;
+}
+
+export interface SimulatorOptions {
+  startingStack: number; // Chips each player starts the tournament with
+  blindLevels: number[]; // Small blind of each level, the big blind is always twice the small blind
+  roundsPerLevel: number; // Hands played before the blinds go up
+  maxRounds: number; // Safety limit so that two passive bots can't play forever
+}
+
+export interface TournamentResult {
+  places: string[]; // Player names from the winner down to the first player eliminated
+  rounds: number; // Number of hands played
+}
+
+interface Seat {
+  player: SimulatedPlayer;
+  props: PlayerProps;
+  holeCards: CardProps[];
+  contributed: number; // Chips put into the pot over the whole hand
+  hasActed: boolean; // Whether the player has acted since the last raise in this betting round
+}
+
+const DEFAULT_OPTIONS: SimulatorOptions = {
+  startingStack: 1000,
+  blindLevels: [2, 3, 5, 10, 15, 20, 30, 40, 50, 75, 100, 150, 200, 300, 400, 500],
+  roundsPerLevel: 10,
+  maxRounds: 2000
+};
+
+/**
+ * Offline stand-in for the Lean Poker dealer. Plays a single sit'n'go between the given players,
+ * sending them the same game_state payloads the live tournament does.
+ */
+export class TableSimulator {
+  private static readonly SUITS = ['clubs', 'spades', 'hearts', 'diamonds'];
+
+  private options: SimulatorOptions;
+  private seats: Seat[];
+  private gameId: string;
+  private round = 0;
+  private orbits = 0;
+  private dealer = -1;
+  private betIndex = 0;
+  private smallBlind = 0;
+  private currentBuyIn = 0;
+  private minimumRaise = 0;
+  private deck: CardProps[] = [];
+  private communityCards: CardProps[] = [];
+  private eliminated: string[] = [];
+
+  constructor(players: SimulatedPlayer[], options: Partial<SimulatorOptions> = {}) {
+    if (players.length < 2) {
+      throw new Error('A tournament needs at least two players');
+    }
+
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.gameId = `sim-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    this.seats = players.map((player, index) => ({
+      player,
+      props: {
+        id: index,
+        name: player.name,
+        status: 'active',
+        version: player.version,
+        stack: this.options.startingStack,
+        bet: 0
+      },
+      holeCards: [],
+      contributed: 0,
+      hasActed: false
+    }));
+  }
+
+  public async run(): Promise<TournamentResult> {
+    while (this.liveSeats().length > 1 && this.round < this.options.maxRounds) {
+      await this.playHand();
+      this.round++;
+    }
+
+    // Players still alive when the round limit is hit are ranked by stack
+    const survivors = this.liveSeats()
+      .sort((a, b) => b.props.stack - a.props.stack)
+      .map(seat => seat.props.name);
+
+    return {
+      places: [...survivors, ...[...this.eliminated].reverse()],
+      rounds: this.round
+    };
+  }
+
+  private async playHand(): Promise<void> {
+    const levelIndex = Math.min(Math.floor(this.round / this.options.roundsPerLevel), this.options.blindLevels.length - 1);
+    this.smallBlind = this.options.blindLevels[levelIndex];
+    this.betIndex = 0;
+    this.communityCards = [];
+    this.deck = this.shuffledDeck();
+
+    const previousDealer = this.dealer;
+    this.dealer = previousDealer < 0
+      ? this.liveSeats()[Math.floor(Math.random() * this.liveSeats().length)].props.id
+      : this.nextSeat(previousDealer, seat => seat.props.status !== 'out');
+    if (previousDealer >= 0 && this.dealer <= previousDealer) this.orbits++;
+
+    const stacksAtStart = new Map<number, number>();
+    for (const seat of this.seats) {
+      seat.props.bet = 0;
+      seat.contributed = 0;
+      if (seat.props.status === 'out') continue;
+      seat.props.status = 'active';
+      seat.holeCards = [this.deck.pop()!, this.deck.pop()!];
+      stacksAtStart.set(seat.props.id, seat.props.stack);
+    }
+
+    // Heads-up the dealer posts the small blind and acts first pre-flop
+    const isHeadsUp = this.liveSeats().length === 2;
+    const inHand = (seat: Seat) => seat.props.status === 'active';
+    const smallBlindSeat = isHeadsUp ? this.dealer : this.nextSeat(this.dealer, inHand);
+    const bigBlindSeat = this.nextSeat(smallBlindSeat, inHand);
+    this.postBlind(smallBlindSeat, this.smallBlind);
+    this.postBlind(bigBlindSeat, this.smallBlind * 2);
+    // A short stack may post less than the blind
+    this.currentBuyIn = Math.max(...this.seats.map(seat => seat.props.bet));
+    this.minimumRaise = this.smallBlind * 2;
+
+    await this.bettingRound(this.nextSeat(bigBlindSeat, inHand));
+
+    for (const cardsToDeal of [3, 1, 1]) {
+      if (this.contenders().length <= 1) break;
+
+      this.deck.pop(); // Burn card
+      for (let i = 0; i < cardsToDeal; i++) {
+        this.communityCards.push(this.deck.pop()!);
+      }
+
+      this.seats.forEach(seat => seat.props.bet = 0);
+      this.currentBuyIn = 0;
+      this.minimumRaise = this.smallBlind * 2;
+
+      // No betting once at most one player still has chips behind
+      if (this.contenders().filter(seat => seat.props.stack > 0).length > 1) {
+        await this.bettingRound(this.nextSeat(this.dealer, inHand));
+      }
+    }
+
+    this.settlePot();
+    this.eliminateBustedPlayers(stacksAtStart);
+  }
+
+  private postBlind(seatIndex: number, amount: number): void {
+    const seat = this.seats[seatIndex];
+    const posted = Math.min(amount, seat.props.stack);
+    seat.props.stack -= posted;
+    seat.props.bet += posted;
+    seat.contributed += posted;
+  }
+
+  private async bettingRound(firstSeat: number): Promise<void> {
+    this.seats.forEach(seat => seat.hasActed = false);
+    let seatIndex = firstSeat;
+
+    while (true) {
+      const contenders = this.contenders();
+      const canAct = contenders.filter(seat => seat.props.stack > 0);
+      if (contenders.length <= 1 || canAct.length === 0) return;
+      if (canAct.every(seat => seat.hasActed && seat.props.bet >= this.currentBuyIn)) return;
+      if (canAct.length === 1 && canAct[0].props.bet >= this.currentBuyIn) return;
+
+      // Nobody else could answer a bet, so only a seat with chips to call still has a decision
+      const seat = this.seats[seatIndex];
+      const othersCanCall = canAct.some(other => other !== seat);
+      if (seat.props.status === 'active' && seat.props.stack > 0 &&
+          !(seat.hasActed && seat.props.bet >= this.currentBuyIn) &&
+          (othersCanCall || seat.props.bet < this.currentBuyIn)) {
+        await this.requestBet(seat, othersCanCall);
+      }
+      seatIndex = (seatIndex + 1) % this.seats.length;
+    }
+  }
+
+  // Applies the Lean Poker rules: less than a call folds, less than a minimum raise calls. A raise
+  // no one else can call is only a call
+  private async requestBet(seat: Seat, canRaise: boolean): Promise<void> {
+    const toCall = this.currentBuyIn - seat.props.bet;
+    let amount: number;
+    try {
+      amount = Math.floor(await seat.player.betRequest(this.gameStateFor(seat.props.id, false)));
+    } catch (e) {
+      amount = 0;
+    }
+    if (!Number.isFinite(amount) || amount < 0) amount = 0;
+    this.betIndex++;
+
+    if (!canRaise && amount >= toCall) {
+      amount = Math.min(toCall, seat.props.stack);
+    } else if (amount >= seat.props.stack) {
+      amount = seat.props.stack;
+    } else if (amount < toCall) {
+      seat.props.status = 'folded';
+      return;
+    } else if (amount < toCall + this.minimumRaise) {
+      amount = toCall;
+    }
+
+    const raiseBy = seat.props.bet + amount - this.currentBuyIn;
+    if (raiseBy > 0) {
+      if (raiseBy >= this.minimumRaise) this.minimumRaise = raiseBy;
+      this.currentBuyIn = seat.props.bet + amount;
+      this.seats.forEach(other => other.hasActed = false);
+    }
+
+    seat.props.stack -= amount;
+    seat.props.bet += amount;
+    seat.contributed += amount;
+    seat.hasActed = true;
+  }
+
+  private settlePot(): void {
+    const contenders = this.contenders();
+    const showdown = contenders.length > 1;
+
+    if (!showdown) {
+      contenders[0].props.stack += this.pot();
+    } else {
+      const hands = new Map<number, HandRank>(contenders.map(seat =>
+        [seat.props.id, HandEvaluator.evaluateHand([...seat.holeCards, ...this.communityCards])]
+      ));
+      const levels = Array.from(new Set(contenders.map(seat => seat.contributed))).sort((a, b) => a - b);
+
+      // Split the pot into a main pot and side pots, one per distinct all-in level
+      let previousLevel = 0;
+      levels.forEach((level, index) => {
+        const isLastLevel = index === levels.length - 1;
+        const potSize = this.seats.reduce((sum, seat) => {
+          const above = Math.max(0, seat.contributed - previousLevel);
+          return sum + (isLastLevel ? above : Math.min(above, level - previousLevel));
+        }, 0);
+        const eligible = contenders.filter(seat => seat.contributed >= level);
+        this.awardPot(potSize, eligible, hands);
+        previousLevel = level;
+      });
+    }
+
+    const revealed = new Set(showdown ? contenders.map(seat => seat.props.id) : []);
+    for (const seat of this.seats) {
+      if (seat.props.status === 'out') continue;
+      seat.player.showdown(this.gameStateFor(seat.props.id, true, revealed));
+    }
+  }
+
+  private awardPot(potSize: number, eligible: Seat[], hands: Map<number, HandRank>): void {
+    if (potSize === 0 || eligible.length === 0) return;
+
+    let winners: Seat[] = [];
+    for (const seat of eligible) {
+      const comparison = winners.length === 0
+        ? 1
+        : HandEvaluator.compareHands(hands.get(seat.props.id)!, hands.get(winners[0].props.id)!);
+      if (comparison > 0) winners = [seat];
+      else if (comparison === 0) winners.push(seat);
+    }
+
+    // Odd chips go to the first winner after the dealer
+    const share = Math.floor(potSize / winners.length);
+    let oddChips = potSize - share * winners.length;
+    winners.sort((a, b) => this.distanceFromDealer(a.props.id) - this.distanceFromDealer(b.props.id));
+    for (const winner of winners) {
+      winner.props.stack += share + (oddChips > 0 ? 1 : 0);
+      oddChips--;
+    }
+  }
+
+  private eliminateBustedPlayers(stacksAtStart: Map<number, number>): void {
+    // Players busting in the same hand are ranked by the stack they started it with
+    const busted = this.seats
+      .filter(seat => seat.props.status !== 'out' && seat.props.stack === 0)
+      .sort((a, b) => stacksAtStart.get(a.props.id)! - stacksAtStart.get(b.props.id)!);
+
+    for (const seat of busted) {
+      seat.props.status = 'out';
+      seat.holeCards = [];
+      this.eliminated.push(seat.props.name);
+    }
+  }
+
+  private gameStateFor(viewerId: number, isShowdown: boolean, revealed: Set<number> = new Set()): GameStateProps {
+    return {
+      tournament_id: 'local-simulation',
+      game_id: this.gameId,
+      round: this.round,
+      bet_index: this.betIndex,
+      small_blind: this.smallBlind,
+      current_buy_in: this.currentBuyIn,
+      pot: this.pot(),
+      minimum_raise: this.minimumRaise,
+      dealer: this.dealer,
+      orbits: this.orbits,
+      in_action: viewerId,
+      players: this.seats.map(seat => {
+        const player: PlayerProps = { ...seat.props };
+        const showsCards = seat.props.id === viewerId || (isShowdown && revealed.has(seat.props.id));
+        if (showsCards && seat.holeCards.length > 0) {
+          player.hole_cards = [...seat.holeCards];
+        }
+        return player;
+      }),
+      community_cards: [...this.communityCards]
+    };
+  }
+
+  private pot(): number {
+    return this.seats.reduce((sum, seat) => sum + seat.contributed, 0);
+  }
+
+  private liveSeats(): Seat[] {
+    return this.seats.filter(seat => seat.props.status !== 'out');
+  }
+
+  private contenders(): Seat[] {
+    return this.seats.filter(seat => seat.props.status === 'active');
+  }
+
+  private nextSeat(from: number, predicate: (seat: Seat) => boolean): number {
+    for (let offset = 1; offset <= this.seats.length; offset++) {
+      const index = (from + offset) % this.seats.length;
+      if (predicate(this.seats[index])) return index;
+    }
+    return from;
+  }
+
+  private distanceFromDealer(seatIndex: number): number {
+    return (seatIndex - this.dealer - 1 + this.seats.length) % this.seats.length;
+  }
+
+  private shuffledDeck(): CardProps[] {
+    const deck: CardProps[] = [];
+    for (const suit of TableSimulator.SUITS) {
+      for (const rank of HandEvaluator.RANKS) {
+        deck.push({ rank, suit });
+      }
+    }
+    for (let i = deck.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+    return deck;
+  }
+}
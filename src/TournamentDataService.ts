@@ -1,3 +1,10 @@
+import * as path from 'path';
+import { Config } from './Config';
+import { FileTournamentDataSource, HttpTournamentDataSource, TournamentDataSource } from './TournamentDataSource';
+import { Logger } from './Logger';
+
+const logger = new Logger('TournamentDataService');
+
 export interface TeamData {
   name: string;
   points: number;
@@ -9,15 +16,46 @@ export interface TournamentData {
   status: string;
 }
 
+export interface StandingsSnapshot {
+  time: number; // When the standings were fetched, in milliseconds since the epoch
+  points: { [team: string]: number };
+}
+
+export interface TeamTrend {
+  name: string;
+  points: number; // Latest points
+  change: number; // Points gained since the oldest snapshot we still keep
+  pointsPerHour: number;
+  since: string | null; // Time of that oldest snapshot
+}
+
+/**
+ * Tournament standings, refreshed from the `tournament_url` API or, for offline runs, the JSON file
+ * named by `tournament_data_file`. Teams matching `team_name` or any `ignored_teams` entry (comma
+ * separated, matched as part of the name) are never treated as targets.
+ */
 export class TournamentDataService {
   private static instance: TournamentDataService;
+  private static readonly DEFAULT_TOURNAMENT_URL = 'https://live.leanpoker.org/api/tournament/6818cec57ae3c70002c56326';
+  private static readonly DEFAULT_TEAM_NAME = 'What Is Poker';
+  private static readonly DEFAULT_IGNORED_TEAMS = 'Bluffy,Winnie,Darth';
+  private readonly ROOT = path.join(__dirname, '..');
   private tournamentData: TournamentData | null = null;
   private lastFetchTime: number = 0;
   private readonly FETCH_INTERVAL = 30000; // 30 seconds
-  private readonly TOURNAMENT_URL = 'https://live.leanpoker.org/api/tournament/6818cec57ae3c70002c56326';
+  private readonly FETCH_TIMEOUT = 10000; // A refresh that takes longer is given up, so the next one can start
+  private readonly MAX_SNAPSHOTS = 240; // Two hours of standings at the fetch interval
   private lowestScoreTeam: TeamData | null = null;
+  private history: StandingsSnapshot[] = [];
+  private source: TournamentDataSource;
+  private refresh: Promise<void> | null = null; // The fetch in progress, shared by every caller
 
-  private constructor() {}
+  private constructor() {
+    const file = Config.get('tournament_data_file');
+    this.source = file
+      ? new FileTournamentDataSource(path.resolve(this.ROOT, file))
+      : new HttpTournamentDataSource(Config.get('tournament_url') || TournamentDataService.DEFAULT_TOURNAMENT_URL);
+  }
 
   public static getInstance(): TournamentDataService {
     if (!TournamentDataService.instance) {
@@ -26,27 +64,44 @@ export class TournamentDataService {
     return TournamentDataService.instance;
   }
 
-  public async fetchTournamentData(): Promise<void> {
-    const currentTime = Date.now();
-    
+  /**
+   * Replaces the configured data source, e.g. with a stand-in for tests or offline runs.
+   */
+  public setDataSource(source: TournamentDataSource): void {
+    this.source = source;
+    this.lastFetchTime = 0;
+  }
+
+  /**
+   * Refreshes the standings at most every 30 seconds. Callers that arrive while a refresh is running
+   * get the same promise; a caller that stops waiting leaves the refresh to finish in the background.
+   */
+  public fetchTournamentData(): Promise<void> {
+    if (this.refresh) return this.refresh;
+
     // Only fetch if we haven't fetched recently
-    if (currentTime - this.lastFetchTime > this.FETCH_INTERVAL) {
-      try {
-        console.log("Fetching tournament data...");
-        const response = await fetch(this.TOURNAMENT_URL);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch tournament data: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        this.tournamentData = data;
-        this.lastFetchTime = currentTime;
-        
-        this.processTeamData();
-        console.log("Tournament data updated successfully");
-      } catch (error) {
-        console.error("Error fetching tournament data:", error);
+    const currentTime = Date.now();
+    if (currentTime - this.lastFetchTime <= this.FETCH_INTERVAL) return Promise.resolve();
+
+    this.refresh = this.fetchStandings(currentTime).finally(() => this.refresh = null);
+    return this.refresh;
+  }
+
+  private async fetchStandings(currentTime: number): Promise<void> {
+    try {
+      logger.debug('Fetching tournament data', { source: this.source.description });
+      const data = await this.source.fetch(AbortSignal.timeout(this.FETCH_TIMEOUT));
+      if (!data || !Array.isArray(data.teams)) {
+        throw new Error('Tournament data has no teams list');
       }
+      this.tournamentData = data;
+      this.lastFetchTime = currentTime;
+      this.recordSnapshot(currentTime, data.teams);
+
+      this.processTeamData();
+      logger.info('Tournament data updated', { teams: data.teams.length });
+    } catch (error) {
+      logger.warn('Error fetching tournament data', { error: error instanceof Error ? error.message : String(error) });
     }
   }
 
@@ -55,11 +110,8 @@ export class TournamentDataService {
       return;
     }
 
-    // Filter out our own team
-    const otherTeams = this.tournamentData.teams.filter(team => 
-      team.name !== "What Is Poker" && !team.name.includes("Bluffy") && 
-      !team.name.includes("Winnie") && !team.name.includes("Darth")
-    );
+    // Filter out our own team and the ones we've been told to leave alone
+    const otherTeams = this.tournamentData.teams.filter(team => !this.isIgnored(team.name));
     
     if (otherTeams.length === 0) {
       return;
@@ -71,7 +123,71 @@ export class TournamentDataService {
       otherTeams[0]
     );
 
-    console.log(`Identified lowest score team: ${this.lowestScoreTeam.name} with ${this.lowestScoreTeam.points} points`);
+    logger.info('Identified lowest score team', { team: this.lowestScoreTeam.name, points: this.lowestScoreTeam.points });
+  }
+
+  /**
+   * How each team's points moved over the standings history, best team first.
+   */
+  public getTrends(): TeamTrend[] {
+    const latest = this.history[this.history.length - 1];
+    if (!latest) return [];
+
+    return Object.keys(latest.points)
+      .map(name => this.getTrend(name))
+      .filter((trend): trend is TeamTrend => trend !== null)
+      .sort((a, b) => b.points - a.points);
+  }
+
+  public getTrend(teamName: string): TeamTrend | null {
+    const snapshots = this.history.filter(snapshot => teamName in snapshot.points);
+    if (snapshots.length === 0) return null;
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const change = last.points[teamName] - first.points[teamName];
+    const hours = (last.time - first.time) / 3600000;
+    return {
+      name: teamName,
+      points: last.points[teamName],
+      change,
+      pointsPerHour: hours > 0 ? change / hours : 0,
+      since: new Date(first.time).toISOString()
+    };
+  }
+
+  public getHistory(): StandingsSnapshot[] {
+    return [...this.history];
+  }
+
+  /**
+   * The last standings we fetched, best team first, and when we fetched them.
+   */
+  public getStandings(): { teams: TeamData[], status: string | null, fetchedAt: string | null, lowestScoreTeam: string | null, trends: TeamTrend[] } {
+    const teams = this.tournamentData?.teams ? [...this.tournamentData.teams].sort((a, b) => b.points - a.points) : [];
+    return {
+      teams,
+      status: this.tournamentData?.status ?? null,
+      fetchedAt: this.lastFetchTime > 0 ? new Date(this.lastFetchTime).toISOString() : null,
+      lowestScoreTeam: this.lowestScoreTeam?.name ?? null,
+      trends: this.getTrends()
+    };
+  }
+
+  private recordSnapshot(time: number, teams: TeamData[]): void {
+    const points: { [team: string]: number } = {};
+    teams.forEach(team => points[team.name] = team.points);
+    this.history.push({ time, points });
+    if (this.history.length > this.MAX_SNAPSHOTS) this.history.shift();
+  }
+
+  private isIgnored(teamName: string): boolean {
+    const ownTeam = Config.get('team_name') || TournamentDataService.DEFAULT_TEAM_NAME;
+    const ignored = (Config.get('ignored_teams') ?? TournamentDataService.DEFAULT_IGNORED_TEAMS)
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name !== '');
+    return teamName === ownTeam || ignored.some(name => teamName.includes(name));
   }
 
   public getLowestScoreTeam(): TeamData | null {
@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import { TournamentData } from './TournamentDataService';
+
+/**
+ * Where TournamentDataService gets the standings from.
+ */
+export interface TournamentDataSource {
+  readonly description: string;
+  fetch(signal?: AbortSignal): Promise<TournamentData>;
+}
+
+/**
+ * The live Lean Poker tournament API.
+ */
+export class HttpTournamentDataSource implements TournamentDataSource {
+  constructor(private readonly url: string) {}
+
+  public get description(): string {
+    return this.url;
+  }
+
+  public async fetch(signal?: AbortSignal): Promise<TournamentData> {
+    const response = await fetch(this.url, { signal });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch tournament data: ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+/**
+ * Reads the standings from a JSON file in the API's format, for offline runs. The file is read on
+ * every fetch, so editing it changes the standings the bot sees.
+ */
+export class FileTournamentDataSource implements TournamentDataSource {
+  constructor(private readonly file: string) {}
+
+  public get description(): string {
+    return this.file;
+  }
+
+  public async fetch(): Promise<TournamentData> {
+    return JSON.parse(await fs.promises.readFile(this.file, 'utf8'));
+  }
+}
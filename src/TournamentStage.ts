@@ -0,0 +1,138 @@
+import { Config } from './Config';
+import { GameState } from './GameState';
+import { Player } from './Player';
+import { Logger } from './Logger';
+
+const logger = new Logger('TournamentStage');
+
+export interface StageInfo {
+  mRatio: number; // Our chips divided by the blinds we pay each orbit
+  effectiveStack: number; // Chips that can actually be won or lost against the biggest opponent stack
+  effectiveStackBB: number;
+  playersRemaining: number; // Players not yet knocked out of the game
+  nearTheMoney: boolean; // On the bubble or already in the paid places
+  pushFold: boolean; // Short enough that pre-flop play should be all-in or fold
+}
+
+export interface AllInIcm {
+  fold: number; // Our share of the prize pool if we fold now
+  allIn: number; // Our expected share if we move all-in
+}
+
+/**
+ * Where we stand in the sit'n'go: how short our stack is and how much the payout structure should
+ * make us care about survival.
+ */
+export class TournamentStage {
+  private static readonly DEFAULT_PUSH_FOLD_M_RATIO = 7;
+  private static readonly DEFAULT_PAYOUTS = [0.5, 0.3, 0.2];
+
+  public static analyze(gameState: GameState): StageInfo {
+    const mRatio = this.mRatio(gameState);
+    const effectiveStack = this.effectiveStack(gameState);
+    const playersRemaining = gameState.players.filter(player => player.status !== 'out').length;
+
+    return {
+      mRatio,
+      effectiveStack,
+      effectiveStackBB: effectiveStack / this.bigBlind(gameState),
+      playersRemaining,
+      nearTheMoney: playersRemaining <= this.payouts().length + 1,
+      pushFold: mRatio < Config.getNumber('push_fold_m_ratio', this.DEFAULT_PUSH_FOLD_M_RATIO)
+    };
+  }
+
+  public static mRatio(gameState: GameState): number {
+    return this.totalChips(gameState.ourPlayer()) / (gameState.smallBlind + this.bigBlind(gameState));
+  }
+
+  public static effectiveStack(gameState: GameState): number {
+    const ours = gameState.ourPlayer();
+    const biggestOpponent = gameState.players
+      .filter(player => player.id !== ours.id && player.status === 'active')
+      .reduce((biggest, player) => Math.max(biggest, this.totalChips(player)), 0);
+    return Math.min(this.totalChips(ours), biggestOpponent);
+  }
+
+  public static bigBlind(gameState: GameState): number {
+    return gameState.smallBlind * 2;
+  }
+
+  /**
+   * Prize shares by finishing place, from the `payouts` setting (comma separated, e.g. "0.5,0.3,0.2").
+   */
+  public static payouts(): number[] {
+    const setting = Config.get('payouts');
+    if (!setting) return this.DEFAULT_PAYOUTS;
+
+    const payouts = setting.split(',').map(share => parseFloat(share));
+    if (payouts.length === 0 || payouts.some(share => !Number.isFinite(share) || share < 0)) {
+      logger.warn('Ignoring invalid payouts setting', { setting });
+      return this.DEFAULT_PAYOUTS;
+    }
+    return payouts;
+  }
+
+  /**
+   * Independent Chip Model: each player's expected share of the prizes given the current stacks.
+   * The chance of finishing first is proportional to stack size, and the remaining places are
+   * filled the same way among the players left over (Malmuth-Harville).
+   */
+  public static icmEquities(stacks: number[], payouts: number[] = this.payouts()): number[] {
+    const equities = stacks.map(() => 0);
+    const places = Math.min(payouts.length, stacks.length);
+
+    const distribute = (place: number, remaining: number[], probability: number) => {
+      if (place >= places) return;
+
+      const total = remaining.reduce((sum, index) => sum + stacks[index], 0);
+      if (total <= 0) return;
+
+      remaining.forEach(index => {
+        const finishHere = probability * stacks[index] / total;
+        if (finishHere === 0) return;
+        equities[index] += finishHere * payouts[place];
+        distribute(place + 1, remaining.filter(other => other !== index), finishHere);
+      });
+    };
+
+    distribute(0, stacks.map((stack, index) => index).filter(index => stacks[index] > 0), 1);
+    return equities;
+  }
+
+  /**
+   * Compares folding with an all-in against one opponent in ICM terms. Chips already in the pot go
+   * to the opponent when we fold; `foldProbability` is the chance the opponent folds to our all-in
+   * and `winProbability` our chance of winning when called.
+   */
+  public static allInIcm(gameState: GameState, opponent: Player, winProbability: number, foldProbability: number): AllInIcm {
+    const ours = gameState.ourPlayer();
+    const seats = gameState.players.filter(player => player.status !== 'out');
+    const ourSeat = seats.findIndex(player => player.id === ours.id);
+    const opponentSeat = seats.findIndex(player => player.id === opponent.id);
+    const stacks = seats.map(player => player.stack);
+
+    const equityWith = (ourStack: number, opponentStack: number) => {
+      const adjusted = [...stacks];
+      adjusted[ourSeat] = ourStack;
+      adjusted[opponentSeat] = opponentStack;
+      return this.icmEquities(adjusted)[ourSeat];
+    };
+
+    // Only the part of our stack the opponent can match is at risk
+    const opponentCall = Math.max(0, Math.min(opponent.stack, ours.bet + ours.stack - opponent.bet));
+    const ourMatched = Math.min(ours.stack, opponent.bet + opponentCall - ours.bet);
+
+    const fold = equityWith(ours.stack, opponent.stack + gameState.pot);
+    const stolen = equityWith(ours.stack + gameState.pot, opponent.stack);
+    const won = equityWith(ours.stack + gameState.pot + opponentCall, opponent.stack - opponentCall);
+    const lost = equityWith(ours.stack - ourMatched, opponent.stack + gameState.pot + ourMatched);
+    const called = winProbability * won + (1 - winProbability) * lost;
+
+    return { fold, allIn: foldProbability * stolen + (1 - foldProbability) * called };
+  }
+
+  private static totalChips(player: Player): number {
+    return player.stack + player.bet;
+  }
+}
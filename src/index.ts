@@ -1,38 +1,76 @@
 import express from 'express';
 import { PokerBot } from './PokerBot';
 import { GameState } from './GameState';
+import { GameStateValidator } from './GameStateValidator';
+import { HandHistoryRecorder } from './HandHistoryRecorder';
+import { PlayerTracker } from './PlayerTracker';
+import { ProfileStore } from './ProfileStore';
+import { LatencyStats } from './LatencyStats';
+import { createAdminRouter } from './AdminRoutes';
+import { Logger } from './Logger';
 
 const VERSION = PokerBot.VERSION;
+const logger = new Logger('server');
+
+PlayerTracker.getInstance().attachStore(ProfileStore.getInstance());
 
 const app = express();
 const player = new PokerBot();
+const handHistory = HandHistoryRecorder.getInstance();
+const latency = LatencyStats.getInstance();
 
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 app.get('/', ({}, res) => res.status(200).send('OK'));
+app.use('/admin', createAdminRouter());
 
 app.post('/', (req, res) => {
     if (req.body.action === 'bet_request') {
+        const validation = GameStateValidator.validate(req.body.game_state);
+        if (!validation.valid) {
+            // Zero checks when checking is free and folds otherwise, so it is legal whatever the state
+            logger.error('Invalid game state, answering with a safe bet', undefined, { action: 'bet_request', errors: validation.errors });
+            res.status(200).send('0');
+            return;
+        }
         try {
-            const gameState = new GameState(JSON.parse(req.body.game_state));
-            player.betRequest(gameState, bet => res.status(200).send(bet.toString()));
+            const gameStateProps = validation.props;
+            const gameState = new GameState(gameStateProps);
+            const receivedAt = Date.now();
+            player.betRequest(gameState, bet => {
+                handHistory.recordBetRequest(gameStateProps, bet);
+                latency.record(Date.now() - receivedAt);
+                res.status(200).send(bet.toString());
+            });
         } catch (e) {
-            console.error('Error parsing game state:', e);
-            res.status(500).send('Error');
+            logger.error('Error handling bet request', e, { action: 'bet_request' });
+            res.status(200).send('0');
         }
     } else if (req.body.action === 'showdown') {
+        const validation = GameStateValidator.validate(req.body.game_state);
+        if (!validation.valid) {
+            logger.error('Invalid game state, skipping showdown', undefined, { action: 'showdown', errors: validation.errors });
+            res.status(200).send('OK');
+            return;
+        }
         try {
-            const gameState = new GameState(JSON.parse(req.body.game_state));
+            const gameStateProps = validation.props;
+            const gameState = new GameState(gameStateProps);
+            handHistory.recordShowdown(gameStateProps);
             player.showdown(gameState);
             res.status(200).send('OK');
         } catch (e) {
-            console.error('Error parsing game state:', e);
+            logger.error('Error handling showdown', e, { action: 'showdown' });
             res.status(500).send('Error');
         }
+    } else if (req.body.action === 'check') {
+        // Lean Poker's health check before a game: just confirm we are up
+        res.status(200).send('OK');
     } else if (req.body.action === 'version') {
         res.status(200).send(VERSION);
     } else {
+        logger.warn('Unknown action', { action: req.body.action });
         res.status(200).send('OK');
     }
 });
@@ -40,4 +78,4 @@ app.post('/', (req, res) => {
 const port = parseInt(process.env['PORT'] || '1337');
 const host = "0.0.0.0";
 app.listen(port, host);
-console.log('Listening at http://' + host + ':' + port);
+logger.info('Listening', { url: 'http://' + host + ':' + port });
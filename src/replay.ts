@@ -0,0 +1,123 @@
+import { createReadStream } from 'fs';
+import * as readline from 'readline';
+import { CardProps } from './Card';
+import { DecisionLog } from './DecisionLog';
+import { GameState } from './GameState';
+import { HandHistoryEntry } from './HandHistoryRecorder';
+import { PokerBot } from './PokerBot';
+
+// Usage: npm run replay -- [--equity-budget 300] [--check-repeat] [--verbose] <hand-history.jsonl>...
+// Pass rotated files oldest first (hand-history.2.jsonl hand-history.1.jsonl hand-history.jsonl)
+// so that opponent tracking builds up in the same order as it did live. --check-repeat answers every
+// bet request twice and reports the ones where the bet or the sampled mixes differ; it sets a
+// `rng_seed` when none is configured, so that the equity simulations run a fixed number of deals.
+
+interface ReplayArgs {
+  files: string[];
+  equityBudgetMs?: number;
+  checkRepeat: boolean;
+  verbose: boolean;
+}
+
+function parseArgs(argv: string[]): ReplayArgs {
+  const args: ReplayArgs = { files: [], checkRepeat: false, verbose: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--equity-budget':
+        args.equityBudgetMs = parseInt(argv[++i]);
+        break;
+      case '--check-repeat':
+        args.checkRepeat = true;
+        break;
+      case '--verbose':
+        args.verbose = true;
+        break;
+      default:
+        args.files.push(argv[i]);
+    }
+  }
+
+  if (args.files.length === 0) {
+    throw new Error('No hand history files given');
+  }
+  return args;
+}
+
+function formatCards(cards: CardProps[]): string {
+  return cards.length > 0 ? cards.map(card => `${card.rank}${card.suit[0]}`).join(' ') : '-';
+}
+
+function decide(bot: PokerBot, gameState: GameState): Promise<number> {
+  return new Promise(resolve => bot.betRequest(gameState, resolve));
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const print = (line: string) => process.stdout.write(line + '\n');
+
+  if (!args.verbose) {
+    console.log = () => {};
+    console.error = () => {};
+  }
+
+  if (args.checkRepeat && !process.env['RNG_SEED']) process.env['RNG_SEED'] = 'replay-check';
+
+  const bot = new PokerBot({ equityBudgetMs: args.equityBudgetMs, fetchTournamentData: false });
+  let decisions = 0;
+  let differences = 0;
+  let unrepeatable = 0;
+
+  for (const file of args.files) {
+    const lines = readline.createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+    let lineNumber = 0;
+
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim() === '') continue;
+
+      const entry: HandHistoryEntry = JSON.parse(line);
+      const gameState = new GameState(entry.game_state);
+
+      if (entry.action === 'showdown') {
+        bot.showdown(gameState);
+        continue;
+      }
+
+      decisions++;
+      const replayedBet = await decide(bot, gameState);
+      const where = `${file}:${lineNumber} game ${gameState.gameId} round ${gameState.round} bet ${gameState.betIndex} ` +
+                    `(${gameState.pokerRound()}) hole [${formatCards(gameState.ourPlayer().holeCards)}] ` +
+                    `board [${formatCards(gameState.communityCards)}] to call ${gameState.toCall()}`;
+
+      if (args.checkRepeat) {
+        const first = DecisionLog.getInstance().recent(1)[0];
+        const repeatedBet = await decide(bot, gameState);
+        const second = DecisionLog.getInstance().recent(1)[0];
+        if (repeatedBet !== replayedBet || JSON.stringify(first?.mixes) !== JSON.stringify(second?.mixes)) {
+          unrepeatable++;
+          print(`${where}: answered ${replayedBet}, then ${repeatedBet} to the same payload`);
+        }
+      }
+
+      if (replayedBet === entry.bet) continue;
+
+      differences++;
+      print(`${where}: recorded ${entry.bet}, now ${replayedBet}`);
+    }
+  }
+
+  print('');
+  print(`${differences} of ${decisions} decisions differ from the recorded bets`);
+  if (args.checkRepeat) {
+    print(`${unrepeatable} of ${decisions} decisions were answered differently the second time`);
+    if (unrepeatable > 0) process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit())
+  .catch(error => {
+    process.stderr.write(`Replay failed: ${error instanceof Error ? error.message : error}\n`);
+    process.exit(1);
+  });
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import { PokerBot } from './PokerBot';
+import { ResultsLedger } from './ResultsLedger';
+import { PokerBotPlayer, REFERENCE_BOTS } from './SimulatedPlayers';
+import { SimulatedPlayer, TableSimulator } from './TableSimulator';
+
+// Usage: npm run simulate -- [--tournaments 200] [--opponents call,raise,tight,random] [--equity-budget 5] [--results out.csv|out.json] [--verbose]
+
+const OUR_NAME = 'What Is Poker';
+
+interface SimulationArgs {
+  tournaments: number;
+  opponents: string[];
+  equityBudgetMs: number;
+  resultsFile: string | null; // Where to export our hand-by-hand results, as CSV or JSON by extension
+  verbose: boolean;
+}
+
+function parseArgs(argv: string[]): SimulationArgs {
+  const args: SimulationArgs = {
+    tournaments: 200,
+    opponents: ['call', 'raise', 'tight', 'random'],
+    equityBudgetMs: 5,
+    resultsFile: null,
+    verbose: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--tournaments':
+        args.tournaments = parseInt(argv[++i]);
+        break;
+      case '--opponents':
+        args.opponents = argv[++i].split(',').map(type => type.trim());
+        break;
+      case '--equity-budget':
+        args.equityBudgetMs = parseInt(argv[++i]);
+        break;
+      case '--results':
+        args.resultsFile = argv[++i];
+        break;
+      case '--verbose':
+        args.verbose = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  const unknown = args.opponents.filter(type => !REFERENCE_BOTS[type]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown opponent types: ${unknown.join(', ')} (available: ${Object.keys(REFERENCE_BOTS).join(', ')})`);
+  }
+  return args;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const print = (line: string) => process.stdout.write(line + '\n');
+
+  // The bot logs every decision, which drowns the report over thousands of tournaments
+  if (!args.verbose) {
+    console.log = () => {};
+    console.error = () => {};
+  }
+
+  const bot = new PokerBot({ equityBudgetMs: args.equityBudgetMs, fetchTournamentData: false });
+  const names = [OUR_NAME, ...args.opponents.map((type, index) => `${type} bot #${index + 1}`)];
+  const placeCounts = new Map<string, number[]>(names.map(name => [name, new Array(names.length).fill(0)]));
+  const startTime = Date.now();
+  let totalRounds = 0;
+
+  for (let t = 0; t < args.tournaments; t++) {
+    const players: SimulatedPlayer[] = [
+      new PokerBotPlayer(OUR_NAME, bot),
+      ...args.opponents.map((type, index) => new REFERENCE_BOTS[type](names[index + 1]))
+    ];
+
+    // Random seating so that no one keeps a fixed position relative to our bot
+    const result = await new TableSimulator(shuffle(players)).run();
+    result.places.forEach((name, place) => placeCounts.get(name)![place]++);
+    totalRounds += result.rounds;
+  }
+
+  const seconds = ((Date.now() - startTime) / 1000).toFixed(1);
+  print(`Simulated ${args.tournaments} tournaments with ${names.length} players in ${seconds}s ` +
+        `(${(totalRounds / args.tournaments).toFixed(0)} hands on average)`);
+  print('');
+
+  const placeHeaders = names.map((_, place) => `#${place + 1}`.padStart(7)).join('');
+  print(`${'Player'.padEnd(20)}${placeHeaders}${'Avg place'.padStart(11)}`);
+  for (const name of names) {
+    const counts = placeCounts.get(name)!;
+    const percentages = counts.map(count => `${(count / args.tournaments * 100).toFixed(1)}%`.padStart(7)).join('');
+    const averagePlace = counts.reduce((sum, count, place) => sum + count * (place + 1), 0) / args.tournaments;
+    print(`${name.padEnd(20)}${percentages}${averagePlace.toFixed(2).padStart(11)}`);
+  }
+
+  const results = ResultsLedger.getInstance().summary();
+  print('');
+  print(`${OUR_NAME}: ${results.hands} hands, ${results.bbPer100.toFixed(1)} bb/100`);
+  print(`${'Branch'.padEnd(36)}${'Hands'.padStart(8)}${'bb/100'.padStart(10)}`);
+  for (const branch of results.byBranch) {
+    print(`${branch.name.padEnd(36)}${String(branch.hands).padStart(8)}${branch.bbPer100.toFixed(1).padStart(10)}`);
+  }
+
+  if (args.resultsFile) {
+    const ledger = ResultsLedger.getInstance();
+    fs.writeFileSync(args.resultsFile, args.resultsFile.endsWith('.json') ? ledger.toJson() : ledger.toCsv());
+    print(`Results written to ${args.resultsFile}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    process.stderr.write(`Simulation failed: ${error instanceof Error ? error.message : error}\n`);
+    process.exit(1);
+  });